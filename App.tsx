@@ -1,11 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Play, FileText, Sparkles, Loader2, Info, Menu } from 'lucide-react';
 import Sidebar from './components/Sidebar';
 import StructureCanvas from './components/StructureCanvas';
 import ChatModal from './components/ChatModal';
 import DeveloperModal from './components/DeveloperModal';
 import { StructureModel, AnalysisResults } from './frame/types';
-import { analyzeStructure } from './frame/solver';
+import { runAnalysis } from './services/analysisRunner';
 import { generateReport } from './services/reportGenerator';
 import { incrementAnalysisCount } from './services/firebase';
 import html2canvas from 'html2canvas';
@@ -24,7 +24,19 @@ const App = () => {
           nodes: Array.isArray(parsed.nodes) ? parsed.nodes : [],
           members: Array.isArray(parsed.members) ? parsed.members : [],
           supports: Array.isArray(parsed.supports) ? parsed.supports : [],
-          loads: Array.isArray(parsed.loads) ? parsed.loads : []
+          loads: Array.isArray(parsed.loads) ? parsed.loads : [],
+          loadCases: Array.isArray(parsed.loadCases) ? parsed.loadCases : undefined,
+          combinations: Array.isArray(parsed.combinations) ? parsed.combinations : undefined,
+          selfWeight: parsed.selfWeight === true ? true : undefined,
+          gravity: typeof parsed.gravity === 'number' ? parsed.gravity : undefined,
+          pDelta: parsed.pDelta === true ? true : undefined,
+          buckling: parsed.buckling && typeof parsed.buckling === 'object' ? parsed.buckling : undefined,
+          modal: parsed.modal && typeof parsed.modal === 'object' ? parsed.modal : undefined,
+          timeHistory: parsed.timeHistory && typeof parsed.timeHistory === 'object' ? parsed.timeHistory : undefined,
+          responseSpectrum: parsed.responseSpectrum && typeof parsed.responseSpectrum === 'object' ? parsed.responseSpectrum : undefined,
+          movingLoad: parsed.movingLoad && Array.isArray(parsed.movingLoad.path) ? parsed.movingLoad : undefined,
+          memberStations: typeof parsed.memberStations === 'number' ? parsed.memberStations : undefined,
+          constraints: Array.isArray(parsed.constraints) ? parsed.constraints : undefined
         };
       } catch (e) {
         console.error("Failed to load saved model:", e);
@@ -44,6 +56,9 @@ const App = () => {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
   const [logoError, setLogoError] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  // Results of a run started before the model last changed are dropped
+  const analysisRun = useRef(0);
 
   // Persistence effect: Save model to local storage whenever it changes
   useEffect(() => {
@@ -52,10 +67,14 @@ const App = () => {
 
   const canAnalyze = model.members.length > 0 && model.supports.length > 0;
 
-  const handleAnalyze = () => {
-    if (!canAnalyze) return;
+  const handleAnalyze = async () => {
+    if (!canAnalyze || isAnalyzing) return;
 
-    const results = analyzeStructure(model);
+    const run = ++analysisRun.current;
+    setIsAnalyzing(true);
+    const results = await runAnalysis(model);
+    setIsAnalyzing(false);
+    if (run !== analysisRun.current) return;
     setAnalysisResults(results);
 
     if (!results.isStable) {
@@ -92,6 +111,7 @@ const App = () => {
   };
 
   const handleModelChange: React.Dispatch<React.SetStateAction<StructureModel>> = (arg) => {
+    analysisRun.current++;
     setAnalysisResults(null);
     if (typeof arg === 'function') {
       setModel(prev => arg(prev));
@@ -101,6 +121,7 @@ const App = () => {
   };
 
   const handleUpdateModelFromAI = (newModel: StructureModel) => {
+    analysisRun.current++;
     setAnalysisResults(null);
     setModel(newModel);
   };
@@ -139,14 +160,16 @@ const App = () => {
         <div className="flex items-center gap-2 md:gap-4">
           <button
             onClick={handleAnalyze}
-            disabled={!canAnalyze}
+            disabled={!canAnalyze || isAnalyzing}
             title={!canAnalyze ? "Add at least one member and one support" : "Run Structural Analysis"}
             className={`px-3 py-1.5 md:py-2 md:px-4 rounded font-semibold flex items-center gap-2 transition-all text-xs md:text-base ${canAnalyze
               ? "bg-emerald-600 hover:bg-emerald-500 text-white shadow-lg active:translate-y-0.5"
               : "bg-slate-800 border border-slate-700 text-slate-500 cursor-not-allowed opacity-50"
               }`}
           >
-            <Play size={16} className="md:w-[18px] md:h-[18px]" fill={canAnalyze ? "currentColor" : "none"} />
+            {isAnalyzing
+              ? <Loader2 size={16} className="animate-spin md:w-[18px] md:h-[18px]" />
+              : <Play size={16} className="md:w-[18px] md:h-[18px]" fill={canAnalyze ? "currentColor" : "none"} />}
             <span className="hidden sm:inline">Analyze</span>
           </button>
           <button
@@ -3,8 +3,8 @@ import React, { useState, useRef, useEffect } from 'react';
 import { X, Send, Bot, Sparkles, User, Loader2, Zap, CheckCircle2, RotateCcw } from 'lucide-react';
 import { analyzeStructureWithAI, Message } from '../services/geminiService';
 import { analyzeStructureWithGroq } from '../services/groqService';
-import { analyzeStructure } from '../frame/solver';
-import { StructureModel, AnalysisResults, SupportType, LoadType } from '../frame/types';
+import { runAnalysis } from '../services/analysisRunner';
+import { StructureModel, AnalysisResults, SupportType, LoadType, EndOffset } from '../frame/types';
 import ReactMarkdown from 'react-markdown';
 
 interface ChatModalProps {
@@ -19,6 +19,21 @@ type AIProvider = 'gemini' | 'groq';
 
 const COOLDOWN_MS = 3000;
 const HOURLY_LIMIT = 20;
+const LOAD_CASE_CATEGORIES = ['dead', 'live', 'roof_live', 'snow', 'rain', 'wind', 'earthquake', 'other'];
+
+// (t, value) pairs from a payload, sorted by time
+const toTimeSeries = (points: any): [number, number][] => Array.isArray(points)
+  ? points.map((p: any): [number, number] => [Number(p?.[0]), Number(p?.[1])])
+    .filter(([t, v]) => Number.isFinite(t) && Number.isFinite(v))
+    .sort((a, b) => a[0] - b[0])
+  : [];
+
+// Rigid end offset from a payload: a length, an {x, y} vector or an [x, y] pair
+const toEndOffset = (offset: any): EndOffset | undefined => {
+  if (Array.isArray(offset)) return { x: Number(offset[0]) || 0, y: Number(offset[1]) || 0 };
+  if (offset && typeof offset === 'object') return { x: Number(offset.x) || 0, y: Number(offset.y) || 0 };
+  return Number(offset) > 0 ? Number(offset) : undefined;
+};
 
 const ChatModal: React.FC<ChatModalProps> = ({ isOpen, onClose, model, setModel, initialResults }) => {
   const [messages, setMessages] = useState<Message[]>([]);
@@ -80,7 +95,9 @@ const ChatModal: React.FC<ChatModalProps> = ({ isOpen, onClose, model, setModel,
               id: String(n.id || ''),
               x: Number(n.x || 0),
               y: Number(n.y || 0),
-              label: n.label
+              label: n.label,
+              mass: n.mass !== undefined ? Number(n.mass) : undefined,
+              rotationalMass: n.rotationalMass !== undefined ? Number(n.rotationalMass) : undefined
             })) : [],
 
             members: Array.isArray(p.members) ? p.members.map((m: any, idx: number) => ({
@@ -92,7 +109,31 @@ const ChatModal: React.FC<ChatModalProps> = ({ isOpen, onClose, model, setModel,
               eModulus: Number(m.eModulus ?? m.E ?? 200e9),
               area: Number(m.area ?? m.A ?? 0.01),
               momentInertia: Number(m.momentInertia ?? m.I ?? 0.0001),
-              springConstant: Number(m.springConstant ?? m.k ?? 100)
+              springConstant: Number(m.springConstant ?? m.k ?? 100),
+              thermalCoefficient: m.thermalCoefficient !== undefined ? Number(m.thermalCoefficient) : undefined,
+              depth: m.depth !== undefined ? Number(m.depth) : undefined,
+              density: m.density !== undefined ? Number(m.density) : undefined,
+              massPerLength: m.massPerLength !== undefined ? Number(m.massPerLength) : undefined,
+              shearModulus: m.shearModulus !== undefined ? Number(m.shearModulus) : undefined,
+              shearArea: m.shearArea !== undefined ? Number(m.shearArea) : undefined,
+              shearFactor: m.shearFactor !== undefined ? Number(m.shearFactor) : undefined,
+              behavior: m.behavior === 'tension' || m.behavior === 'compression' ? m.behavior : undefined,
+              taper: m.taper && ['linear', 'parabolic', 'stations'].includes(m.taper.profile) ? {
+                profile: m.taper.profile,
+                endArea: m.taper.endArea !== undefined ? Number(m.taper.endArea) : undefined,
+                endMomentInertia: m.taper.endMomentInertia !== undefined ? Number(m.taper.endMomentInertia) : undefined,
+                stations: Array.isArray(m.taper.stations) ? m.taper.stations.map((st: any) => ({
+                  position: Number(st.position), area: Number(st.area), momentInertia: Number(st.momentInertia)
+                })) : undefined
+              } : undefined,
+              offsets: m.offsets && typeof m.offsets === 'object' ? {
+                start: toEndOffset(m.offsets.start),
+                end: toEndOffset(m.offsets.end)
+              } : undefined,
+              releases: m.releases && typeof m.releases === 'object' ? {
+                start: m.releases.start ? { axial: !!m.releases.start.axial, shear: !!m.releases.start.shear, moment: !!m.releases.start.moment } : undefined,
+                end: m.releases.end ? { axial: !!m.releases.end.axial, shear: !!m.releases.end.shear, moment: !!m.releases.end.moment } : undefined
+              } : undefined
             })) : [],
 
             supports: Array.isArray(p.supports) ? p.supports.map((s: any, idx: number) => {
@@ -105,7 +146,11 @@ const ChatModal: React.FC<ChatModalProps> = ({ isOpen, onClose, model, setModel,
               return {
                 id: String(s.id || `s${idx + 1}`),
                 nodeId: String(s.nodeId || s.node || ''),
-                type: stype as SupportType
+                type: stype as SupportType,
+                angle: s.angle !== undefined ? Number(s.angle) : undefined,
+                kx: s.kx !== undefined ? Number(s.kx) : undefined,
+                ky: s.ky !== undefined ? Number(s.ky) : undefined,
+                kTheta: s.kTheta !== undefined ? Number(s.kTheta) : undefined
               };
             }) : [],
 
@@ -113,7 +158,9 @@ const ChatModal: React.FC<ChatModalProps> = ({ isOpen, onClose, model, setModel,
               let ltype = String(l.type || '').toLowerCase();
 
               // Better type identification
-              if (ltype.includes('nodal')) ltype = LoadType.NODAL_POINT;
+              if (ltype.includes('settle') || ltype.includes('support_disp')) ltype = LoadType.SUPPORT_DISPLACEMENT;
+              else if (ltype.includes('thermal') || ltype.includes('temp')) ltype = LoadType.MEMBER_THERMAL;
+              else if (ltype.includes('nodal')) ltype = LoadType.NODAL_POINT;
               else if (ltype.includes('dist') || ltype.includes('udl')) ltype = LoadType.MEMBER_DISTRIBUTED;
               else if (ltype.includes('member_point')) ltype = LoadType.MEMBER_POINT;
               else if (ltype.includes('point')) {
@@ -135,14 +182,97 @@ const ChatModal: React.FC<ChatModalProps> = ({ isOpen, onClose, model, setModel,
               return {
                 id: String(l.id || `l${idx + 1}`),
                 type: ltype as LoadType,
+                loadCaseId: l.loadCaseId !== undefined ? String(l.loadCaseId) : undefined,
                 nodeId,
                 memberId,
                 magnitudeX: magX,
                 magnitudeY: magY,
                 moment,
-                location
+                location,
+                deltaT: l.deltaT !== undefined ? Number(l.deltaT) : undefined,
+                temperatureGradient: l.temperatureGradient !== undefined ? Number(l.temperatureGradient) : undefined,
+                direction: ['local', 'global', 'projected'].includes(l.direction) ? l.direction : undefined,
+                endMagnitudeX: l.endMagnitudeX !== undefined ? Number(l.endMagnitudeX) : undefined,
+                endMagnitudeY: l.endMagnitudeY !== undefined ? Number(l.endMagnitudeY) : undefined,
+                startOffset: l.startOffset !== undefined ? Number(l.startOffset) : undefined,
+                endOffset: l.endOffset !== undefined ? Number(l.endOffset) : undefined
               };
-            }) : []
+            }) : [],
+
+            loadCases: Array.isArray(p.loadCases) ? p.loadCases.map((c: any, idx: number) => ({
+              id: String(c.id || `lc${idx + 1}`),
+              name: String(c.name || c.id || `Case ${idx + 1}`),
+              category: LOAD_CASE_CATEGORIES.includes(c.category) ? c.category : 'other'
+            })) : undefined,
+
+            combinations: Array.isArray(p.combinations) ? p.combinations.map((c: any, idx: number) => ({
+              id: String(c.id || `c${idx + 1}`),
+              name: String(c.name || c.id || `Combination ${idx + 1}`),
+              factors: Object.fromEntries(Object.entries(c.factors || {}).map(([id, f]) => [id, Number(f)]))
+            })) : undefined,
+
+            selfWeight: p.selfWeight !== undefined ? !!p.selfWeight : undefined,
+            gravity: p.gravity !== undefined ? Number(p.gravity) : undefined,
+            pDelta: p.pDelta !== undefined ? !!p.pDelta : undefined,
+            buckling: p.buckling ? {
+              modes: p.buckling.modes !== undefined ? Math.max(1, Math.round(Number(p.buckling.modes))) : undefined,
+              loadCaseId: p.buckling.loadCaseId ? String(p.buckling.loadCaseId) : undefined
+            } : undefined,
+            modal: p.modal ? {
+              modes: p.modal.modes !== undefined ? Math.max(1, Math.round(Number(p.modal.modes))) : undefined,
+              massType: p.modal.massType === 'lumped' ? 'lumped' : 'consistent'
+            } : undefined,
+            timeHistory: p.timeHistory ? {
+              duration: Math.max(0, Number(p.timeHistory.duration) || 0),
+              timeStep: Math.max(0, Number(p.timeHistory.timeStep) || 0),
+              loadCaseId: p.timeHistory.loadCaseId ? String(p.timeHistory.loadCaseId) : undefined,
+              loadFunction: Array.isArray(p.timeHistory.loadFunction) ? toTimeSeries(p.timeHistory.loadFunction) : undefined,
+              groundMotion: p.timeHistory.groundMotion ? {
+                direction: p.timeHistory.groundMotion.direction === 'y' ? 'y' : 'x',
+                record: toTimeSeries(p.timeHistory.groundMotion.record),
+                scale: p.timeHistory.groundMotion.scale !== undefined ? Number(p.timeHistory.groundMotion.scale) : undefined
+              } : undefined,
+              dampingRatio: p.timeHistory.dampingRatio !== undefined ? Math.max(0, Number(p.timeHistory.dampingRatio)) : undefined,
+              dampingFrequencies: Array.isArray(p.timeHistory.dampingFrequencies) && p.timeHistory.dampingFrequencies.length === 2
+                ? [Number(p.timeHistory.dampingFrequencies[0]), Number(p.timeHistory.dampingFrequencies[1])]
+                : undefined,
+              massType: p.timeHistory.massType === 'lumped' ? 'lumped' : 'consistent'
+            } : undefined,
+            responseSpectrum: p.responseSpectrum ? {
+              direction: p.responseSpectrum.direction === 'y' ? 'y' : 'x',
+              spectrum: Array.isArray(p.responseSpectrum.spectrum) ? toTimeSeries(p.responseSpectrum.spectrum) : undefined,
+              code: p.responseSpectrum.code ? {
+                sds: Number(p.responseSpectrum.code.sds) || 0,
+                sd1: Number(p.responseSpectrum.code.sd1) || 0,
+                longPeriod: p.responseSpectrum.code.longPeriod !== undefined ? Number(p.responseSpectrum.code.longPeriod) : undefined
+              } : undefined,
+              scale: p.responseSpectrum.scale !== undefined ? Number(p.responseSpectrum.scale) : undefined,
+              combination: p.responseSpectrum.combination === 'srss' ? 'srss' : 'cqc',
+              dampingRatio: p.responseSpectrum.dampingRatio !== undefined ? Math.max(0, Number(p.responseSpectrum.dampingRatio)) : undefined,
+              modes: p.responseSpectrum.modes !== undefined ? Math.max(1, Math.round(Number(p.responseSpectrum.modes))) : undefined,
+              massType: p.responseSpectrum.massType === 'lumped' ? 'lumped' : 'consistent'
+            } : undefined,
+            movingLoad: p.movingLoad ? {
+              path: Array.isArray(p.movingLoad.path) ? p.movingLoad.path.map(String) : [],
+              axles: Array.isArray(p.movingLoad.axles)
+                ? p.movingLoad.axles.map((a: any) => ({ offset: Math.max(0, Number(a.offset) || 0), load: Number(a.load) || 0 }))
+                : undefined,
+              step: Number(p.movingLoad.step) > 0 ? Number(p.movingLoad.step) : undefined,
+              influenceLines: Array.isArray(p.movingLoad.influenceLines) ? p.movingLoad.influenceLines.map((q: any) => ({
+                target: q.target === 'section' ? 'section' : 'reaction',
+                id: String(q.id),
+                station: q.station !== undefined ? Number(q.station) : undefined,
+                component: ['fx', 'fy', 'moment'].includes(q.component) ? q.component : 'fy'
+              })) : undefined
+            } : undefined,
+            memberStations: Number(p.memberStations) >= 2 ? Math.round(Number(p.memberStations)) : undefined,
+            constraints: Array.isArray(p.constraints) ? p.constraints.map((c: any, idx: number) => ({
+              id: String(c.id || `k${idx + 1}`),
+              type: c.type === 'equal_dof' ? 'equal_dof' : 'rigid_link',
+              masterNodeId: String(c.masterNodeId),
+              slaveNodeIds: Array.isArray(c.slaveNodeIds) ? c.slaveNodeIds.map(String) : [],
+              dofs: Array.isArray(c.dofs) ? c.dofs.filter((d: any) => ['x', 'y', 'rotation'].includes(d)) : undefined
+            })) : undefined
           };
 
           return {
@@ -218,7 +348,7 @@ const ChatModal: React.FC<ChatModalProps> = ({ isOpen, onClose, model, setModel,
 
       if (!currentResults && nodesCount > 0 && membersCount > 0) {
         try {
-          currentResults = analyzeStructure(model);
+          currentResults = await runAnalysis(model);
           setResults(currentResults);
         } catch (err) { }
       }
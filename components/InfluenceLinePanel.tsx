@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { MovingLoadResults } from '../frame/types';
+import { influenceLabel } from '../frame/influence';
+
+interface InfluenceLinePanelProps {
+  movingLoad: MovingLoadResults;
+}
+
+const InfluenceLinePanel: React.FC<InfluenceLinePanelProps> = ({ movingLoad }) => {
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    setIndex(0);
+  }, [movingLoad]);
+
+  const line = movingLoad.influenceLines[index];
+  if (!line) return null;
+
+  const top = Math.max(0, ...line.values);
+  const bottom = Math.min(0, ...line.values);
+  const span = top - bottom || 1;
+  const length = movingLoad.pathLength || 1;
+  const points = line.values.map((v, i) => `${(line.positions[i] / length * 300).toFixed(1)},${((top - v) / span * 80).toFixed(1)}`);
+
+  return (
+    <div
+      className="absolute top-4 right-4 w-72 max-w-[80%] bg-slate-900/90 border border-cyan-700 px-3 py-2 rounded-lg shadow-lg z-10 backdrop-blur-sm pointer-events-auto space-y-1"
+      onMouseDown={e => e.stopPropagation()}
+      onTouchStart={e => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-cyan-300 text-[10px] font-bold uppercase tracking-wider">Influence Line</span>
+        <select
+          value={index}
+          onChange={e => setIndex(Number(e.target.value))}
+          className="bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-slate-300 outline-none focus:border-cyan-500"
+        >
+          {movingLoad.influenceLines.map((l, i) => <option key={i} value={i}>{influenceLabel(l.quantity)}</option>)}
+        </select>
+      </div>
+      <svg viewBox="0 0 300 80" preserveAspectRatio="none" className="w-full h-16 bg-slate-950/40 rounded">
+        <polygon points={`0,${top / span * 80} ${points.join(' ')} 300,${top / span * 80}`} fill="#22d3ee" fillOpacity="0.15" stroke="none" />
+        <polyline points={points.join(' ')} fill="none" stroke="#22d3ee" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+        <line x1="0" x2="300" y1={top / span * 80} y2={top / span * 80} stroke="#475569" strokeWidth="0.5" vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-[9px] font-mono text-slate-500">
+        <span>0</span>
+        <span>unit load position along the path</span>
+        <span>{movingLoad.pathLength.toPrecision(4)}</span>
+      </div>
+      <div className="text-[10px] font-mono text-slate-300">
+        Train max {line.max.toPrecision(4)} (lead at {line.maxPosition.toPrecision(4)}) · min {line.min.toPrecision(4)} (lead at {line.minPosition.toPrecision(4)})
+      </div>
+    </div>
+  );
+};
+
+export default InfluenceLinePanel;
@@ -1,7 +1,11 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { Plus, Trash2, ArrowRight, AlertCircle, X, Calculator, Edit2 } from 'lucide-react';
-import { StructureModel, SupportType, LoadType, MemberType, Member } from '../frame/types';
+import { StructureModel, SupportType, LoadType, MemberType, MemberBehavior, Member, MemberReleases, EndOffset, MemberTaper, EndRelease, LoadDirection, LoadCaseCategory, Load, ConstraintType, DofName, TimeHistorySettings, ResponseSpectrumSettings, MovingLoadSettings, InfluenceQuantity } from '../frame/types';
+import { parseTimeSeries } from '../frame/timeSeries';
+import { parseSectionStations } from '../frame/taper';
+import { influenceLabel } from '../frame/influence';
+import { asce7LrfdCombinations } from '../frame/combinations';
 
 interface SidebarProps {
   model: StructureModel;
@@ -9,7 +13,30 @@ interface SidebarProps {
   onCloseMobile?: () => void;
 }
 
-type Tab = 'nodes' | 'members' | 'supports' | 'loads';
+type Tab = 'nodes' | 'members' | 'supports' | 'loads' | 'cases' | 'analysis';
+
+const LOAD_CASE_CATEGORIES: [LoadCaseCategory, string][] = [
+  ['dead', 'Dead (D)'],
+  ['live', 'Live (L)'],
+  ['roof_live', 'Roof Live (Lr)'],
+  ['snow', 'Snow (S)'],
+  ['rain', 'Rain (R)'],
+  ['wind', 'Wind (W)'],
+  ['earthquake', 'Earthquake (E)'],
+  ['other', 'Other']
+];
+
+const CONSTRAINT_TYPES: [ConstraintType, string][] = [
+  ['rigid_link', 'Rigid Link'],
+  ['equal_dof', 'Equal DOF']
+];
+
+const DOF_LABELS: [DofName, string][] = [['x', 'X'], ['y', 'Y'], ['rotation', 'θ']];
+
+// Rigid end offset as edited in the member form (a length along the member or a global vector)
+const toOffsetForm = (offset?: EndOffset) => typeof offset === 'number'
+  ? { length: offset, x: 0, y: 0 }
+  : { length: 0, x: offset?.x ?? 0, y: offset?.y ?? 0 };
 
 // Helper Component for inputs that support math expressions
 const SmartInput = ({ value, onChange, className }: { value: number; onChange: (val: number) => void; className?: string }) => {
@@ -70,6 +97,37 @@ const SmartInput = ({ value, onChange, className }: { value: number; onChange: (
   );
 };
 
+// Pasted (t, value) table, e.g. CSV from a spreadsheet; parsed when the field loses focus
+const TimeSeriesInput = ({ points, onChange, placeholder }: { points: [number, number][]; onChange: (points: [number, number][]) => void; placeholder?: string }) => {
+  const format = (p: [number, number][]) => p.map(([t, v]) => `${t}, ${v}`).join('\n');
+  const [text, setText] = useState(format(points));
+  const [isFocused, setIsFocused] = useState(false);
+
+  useEffect(() => {
+    if (!isFocused) setText(format(points));
+  }, [points, isFocused]);
+
+  return (
+    <div>
+      <textarea
+        rows={4}
+        value={text}
+        placeholder={placeholder}
+        onChange={e => setText(e.target.value)}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => {
+          setIsFocused(false);
+          onChange(parseTimeSeries(text));
+        }}
+        className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-xs font-mono text-white focus:border-cyan-500 outline-none"
+      />
+      <p className="text-[10px] text-slate-500">
+        {points.length > 0 ? `${points.length} points, ${points[0][0]} to ${points[points.length - 1][0]} s` : 'No points'}
+      </p>
+    </div>
+  );
+};
+
 const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) => {
   const [activeTab, setActiveTab] = useState<Tab>('nodes');
   const [error, setError] = useState<string | null>(null);
@@ -81,6 +139,11 @@ const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) =>
   const members = model.members ?? [];
   const supports = model.supports ?? [];
   const loads = model.loads ?? [];
+  const loadCases = model.loadCases ?? [];
+  const combinations = model.combinations ?? [];
+  const constraints = model.constraints ?? [];
+  // Loads without a known case belong to the first case, as in the solver
+  const caseOfLoad = (load: Load) => loadCases.some(c => c.id === load.loadCaseId) ? load.loadCaseId : loadCases[0]?.id;
 
   // Temporary state
   const [tempNode, setTempNode] = useState({ x: 0, y: 0 });
@@ -91,20 +154,56 @@ const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) =>
     a: 3e-2,
     i: 5e-4,
     k: 1000,
-    type: 'beam' as MemberType
+    alpha: 1.2e-5,
+    depth: 0,
+    density: 0,
+    massPerLength: 0,
+    shearModulus: 0,
+    shearArea: 0,
+    shearFactor: 0,
+    offsetMode: 'length' as 'length' | 'vector',
+    offsetStart: { length: 0, x: 0, y: 0 },
+    offsetEnd: { length: 0, x: 0, y: 0 },
+    taperProfile: '' as MemberTaper['profile'] | '',
+    endArea: 0,
+    endMomentInertia: 0,
+    taperStations: '',
+    type: 'beam' as MemberType,
+    releases: {} as MemberReleases,
+    behavior: '' as MemberBehavior | ''
+  });
+  const [tempSupport, setTempSupport] = useState({ nodeId: '', type: SupportType.PIN, angle: 0, kx: 0, ky: 0, kTheta: 0 });
+  const [tempConstraint, setTempConstraint] = useState({
+    type: 'rigid_link' as ConstraintType,
+    masterNodeId: '',
+    slaveNodeIds: [] as string[],
+    dofs: ['x', 'y', 'rotation'] as DofName[]
   });
-  const [tempSupport, setTempSupport] = useState({ nodeId: '', type: SupportType.PIN });
 
-  const [loadCategory, setLoadCategory] = useState<'node' | 'member'>('node');
+  const [loadCategory, setLoadCategory] = useState<'node' | 'member' | 'support'>('node');
   const [tempLoad, setTempLoad] = useState({
     targetId: '',
     type: 'point',
     magX: 0,
     magY: -10,
     moment: 0,
-    location: 0
+    location: 0,
+    endMagX: 0,
+    endMagY: -10,
+    direction: 'global' as LoadDirection,
+    loadCaseId: '',
+    startOffset: 0,
+    endOffset: 0,
+    deltaT: 0,
+    gradientT: 0
   });
 
+  const [tempCase, setTempCase] = useState({ name: '', category: 'dead' as LoadCaseCategory });
+  const [tempCombo, setTempCombo] = useState({ name: '', factors: {} as { [loadCaseId: string]: number } });
+  const [tempMass, setTempMass] = useState({ nodeId: '', mass: 0, rotationalMass: 0 });
+  const [tempAxle, setTempAxle] = useState({ offset: 0, load: 100 });
+  const [tempInfluence, setTempInfluence] = useState<InfluenceQuantity>({ target: 'reaction', id: '', component: 'fy' });
+
   const showError = (msg: string) => {
     setError(msg);
     setTimeout(() => setError(null), 3000);
@@ -133,7 +232,23 @@ const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) =>
       a: 3e-2,
       i: 5e-4,
       k: 1000,
-      type: 'beam' as MemberType
+      alpha: 1.2e-5,
+      depth: 0,
+      density: 0,
+      massPerLength: 0,
+      shearModulus: 0,
+      shearArea: 0,
+      shearFactor: 0,
+      offsetMode: 'length',
+      offsetStart: { length: 0, x: 0, y: 0 },
+      offsetEnd: { length: 0, x: 0, y: 0 },
+      taperProfile: '',
+      endArea: 0,
+      endMomentInertia: 0,
+      taperStations: '',
+      type: 'beam' as MemberType,
+      releases: {},
+      behavior: ''
     });
     setEditingMemberId(null);
   };
@@ -147,7 +262,23 @@ const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) =>
       a: member.area ?? 3e-2,
       i: member.momentInertia ?? 5e-4,
       k: member.springConstant ?? 1000,
-      type: member.type
+      alpha: member.thermalCoefficient ?? 1.2e-5,
+      depth: member.depth ?? 0,
+      density: member.density ?? 0,
+      massPerLength: member.massPerLength ?? 0,
+      shearModulus: member.shearModulus ?? 0,
+      shearArea: member.shearArea ?? 0,
+      shearFactor: member.shearFactor ?? 0,
+      offsetMode: [member.offsets?.start, member.offsets?.end].some(o => o !== undefined && typeof o !== 'number') ? 'vector' : 'length',
+      offsetStart: toOffsetForm(member.offsets?.start),
+      offsetEnd: toOffsetForm(member.offsets?.end),
+      taperProfile: member.taper?.profile ?? '',
+      endArea: member.taper?.endArea ?? 0,
+      endMomentInertia: member.taper?.endMomentInertia ?? 0,
+      taperStations: (member.taper?.stations ?? []).map(st => `${st.position}, ${st.area}, ${st.momentInertia}`).join('\n'),
+      type: member.type,
+      releases: member.releases ?? {},
+      behavior: member.behavior ?? ''
     });
     setActiveTab('members');
     // Smoothly scroll to top of sidebar to see the edit form
@@ -178,16 +309,45 @@ const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) =>
       endNodeId: tempMember.endNodeId,
       type: tempMember.type
     };
+    if (tempMember.behavior) newMemberData.behavior = tempMember.behavior;
 
     if (tempMember.type === 'spring') {
       newMemberData.springConstant = Number(tempMember.k);
     } else if (tempMember.type === 'truss') {
       newMemberData.eModulus = Number(tempMember.e);
       newMemberData.area = Number(tempMember.a);
+      newMemberData.thermalCoefficient = Number(tempMember.alpha);
+      if (tempMember.density > 0) newMemberData.density = Number(tempMember.density);
+      if (tempMember.massPerLength > 0) newMemberData.massPerLength = Number(tempMember.massPerLength);
     } else {
+      newMemberData.thermalCoefficient = Number(tempMember.alpha);
+      if (tempMember.density > 0) newMemberData.density = Number(tempMember.density);
+      if (tempMember.massPerLength > 0) newMemberData.massPerLength = Number(tempMember.massPerLength);
+      if (tempMember.depth > 0) newMemberData.depth = Number(tempMember.depth);
       newMemberData.eModulus = Number(tempMember.e);
       newMemberData.area = Number(tempMember.a);
       newMemberData.momentInertia = Number(tempMember.i);
+      if (tempMember.shearModulus > 0) {
+        newMemberData.shearModulus = Number(tempMember.shearModulus);
+        if (tempMember.shearArea > 0) newMemberData.shearArea = Number(tempMember.shearArea);
+        else if (tempMember.shearFactor > 0) newMemberData.shearFactor = Number(tempMember.shearFactor);
+      }
+      const fromForm = (o: { length: number; x: number; y: number }): EndOffset | undefined => {
+        if (tempMember.offsetMode === 'length') return o.length > 0 ? Number(o.length) : undefined;
+        return o.x !== 0 || o.y !== 0 ? { x: Number(o.x), y: Number(o.y) } : undefined;
+      };
+      const offsets = { start: fromForm(tempMember.offsetStart), end: fromForm(tempMember.offsetEnd) };
+      if (offsets.start !== undefined || offsets.end !== undefined) newMemberData.offsets = offsets;
+      if (tempMember.taperProfile === 'stations') {
+        const stations = parseSectionStations(tempMember.taperStations);
+        if (stations.length > 0) newMemberData.taper = { profile: 'stations', stations };
+      } else if (tempMember.taperProfile) {
+        newMemberData.taper = { profile: tempMember.taperProfile };
+        if (tempMember.endArea > 0) newMemberData.taper.endArea = Number(tempMember.endArea);
+        if (tempMember.endMomentInertia > 0) newMemberData.taper.endMomentInertia = Number(tempMember.endMomentInertia);
+      }
+      const hasRelease = [tempMember.releases.start, tempMember.releases.end].some(r => r && (r.axial || r.shear || r.moment));
+      if (hasRelease) newMemberData.releases = tempMember.releases;
     }
 
     setModel(prev => ({
@@ -207,33 +367,177 @@ const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) =>
       ...prev,
       supports: [
         ...(prev.supports ?? []).filter(s => s.nodeId !== tempSupport.nodeId),
-        { id, nodeId: tempSupport.nodeId, type: tempSupport.type }
+        {
+          id,
+          nodeId: tempSupport.nodeId,
+          type: tempSupport.type,
+          angle: tempSupport.angle ? Number(tempSupport.angle) : undefined,
+          kx: tempSupport.kx > 0 ? Number(tempSupport.kx) : undefined,
+          ky: tempSupport.ky > 0 ? Number(tempSupport.ky) : undefined,
+          kTheta: tempSupport.kTheta > 0 ? Number(tempSupport.kTheta) : undefined
+        }
       ]
     }));
   };
 
+  const addConstraint = () => {
+    const slaveNodeIds = tempConstraint.slaveNodeIds.filter(id => id !== tempConstraint.masterNodeId);
+    if (!tempConstraint.masterNodeId || slaveNodeIds.length === 0 || tempConstraint.dofs.length === 0) return;
+    setModel(prev => ({
+      ...prev,
+      constraints: [...(prev.constraints ?? []), {
+        id: `k${Date.now()}`,
+        type: tempConstraint.type,
+        masterNodeId: tempConstraint.masterNodeId,
+        slaveNodeIds,
+        dofs: tempConstraint.dofs.length < 3 ? tempConstraint.dofs : undefined
+      }]
+    }));
+    setTempConstraint({ ...tempConstraint, slaveNodeIds: [] });
+  };
+
+  const toggleIn = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(x => x !== item) : [...list, item];
+
   const addLoad = () => {
     if (!tempLoad.targetId) return;
     const id = `l${Date.now()}`;
     let type: LoadType = LoadType.NODAL_POINT;
     if (loadCategory === 'member') {
       type = tempLoad.type === 'distributed' ? LoadType.MEMBER_DISTRIBUTED : LoadType.MEMBER_POINT;
+      if (tempLoad.type === 'thermal') type = LoadType.MEMBER_THERMAL;
+    } else if (loadCategory === 'support') {
+      type = LoadType.SUPPORT_DISPLACEMENT;
+    }
+    if (type === LoadType.MEMBER_THERMAL) {
+      setModel(prev => ({
+        ...prev,
+        loads: [...(prev.loads ?? []), {
+          id,
+          type,
+          memberId: tempLoad.targetId,
+          loadCaseId: tempLoad.loadCaseId || undefined,
+          magnitudeX: 0,
+          magnitudeY: 0,
+          deltaT: Number(tempLoad.deltaT),
+          temperatureGradient: Number(tempLoad.gradientT)
+        }]
+      }));
+      return;
     }
     setModel(prev => ({
       ...prev,
       loads: [...(prev.loads ?? []), {
         id,
         type,
-        nodeId: loadCategory === 'node' ? tempLoad.targetId : undefined,
+        nodeId: loadCategory !== 'member' ? tempLoad.targetId : undefined,
         memberId: loadCategory === 'member' ? tempLoad.targetId : undefined,
+        loadCaseId: tempLoad.loadCaseId || undefined,
         magnitudeX: Number(tempLoad.magX),
         magnitudeY: Number(tempLoad.magY),
         moment: Number(tempLoad.moment),
-        location: loadCategory === 'member' && tempLoad.type === 'point' ? Number(tempLoad.location) : undefined
+        location: loadCategory === 'member' && tempLoad.type === 'point' ? Number(tempLoad.location) : undefined,
+        direction: loadCategory === 'member' ? tempLoad.direction : undefined,
+        ...(type === LoadType.MEMBER_DISTRIBUTED && {
+          endMagnitudeX: tempLoad.endMagX !== tempLoad.magX ? Number(tempLoad.endMagX) : undefined,
+          endMagnitudeY: tempLoad.endMagY !== tempLoad.magY ? Number(tempLoad.endMagY) : undefined,
+          startOffset: tempLoad.startOffset > 0 ? Number(tempLoad.startOffset) : undefined,
+          endOffset: tempLoad.endOffset > 0 ? Number(tempLoad.endOffset) : undefined
+        })
       }]
     }));
   };
 
+  const addLoadCase = () => {
+    if (!tempCase.name.trim()) return;
+    setModel(prev => ({
+      ...prev,
+      loadCases: [...(prev.loadCases ?? []), { id: `lc${Date.now()}`, name: tempCase.name.trim(), category: tempCase.category }]
+    }));
+    setTempCase({ ...tempCase, name: '' });
+  };
+
+  // Loads of a removed case fall back to the first case; combinations drop its factor
+  const removeLoadCase = (id: string) => {
+    setModel(prev => ({
+      ...prev,
+      loadCases: (prev.loadCases ?? []).filter(c => c.id !== id),
+      loads: (prev.loads ?? []).map(l => l.loadCaseId === id ? { ...l, loadCaseId: undefined } : l),
+      combinations: (prev.combinations ?? []).map(c => {
+        const { [id]: _, ...factors } = c.factors;
+        return { ...c, factors };
+      }),
+      buckling: prev.buckling?.loadCaseId === id ? { ...prev.buckling, loadCaseId: undefined } : prev.buckling,
+      timeHistory: prev.timeHistory?.loadCaseId === id ? { ...prev.timeHistory, loadCaseId: undefined } : prev.timeHistory
+    }));
+  };
+
+  const updateTimeHistory = (changes: Partial<TimeHistorySettings>) => {
+    setModel(prev => prev.timeHistory ? { ...prev, timeHistory: { ...prev.timeHistory, ...changes } } : prev);
+  };
+
+  const updateResponseSpectrum = (changes: Partial<ResponseSpectrumSettings>) => {
+    setModel(prev => prev.responseSpectrum ? { ...prev, responseSpectrum: { ...prev.responseSpectrum, ...changes } } : prev);
+  };
+
+  const updateMovingLoad = (update: (settings: MovingLoadSettings) => Partial<MovingLoadSettings>) => {
+    setModel(prev => prev.movingLoad ? { ...prev, movingLoad: { ...prev.movingLoad, ...update(prev.movingLoad) } } : prev);
+  };
+
+  // Clicking a member appends it to the end of the path, clicking it again takes it out
+  const togglePathMember = (memberId: string) => {
+    updateMovingLoad(settings => ({
+      path: settings.path.includes(memberId) ? settings.path.filter(id => id !== memberId) : [...settings.path, memberId]
+    }));
+  };
+
+  const addAxle = () => {
+    updateMovingLoad(settings => ({
+      axles: [...(settings.axles ?? []), { offset: tempAxle.offset, load: tempAxle.load }].sort((a, b) => a.offset - b.offset)
+    }));
+  };
+
+  const addInfluenceLine = () => {
+    if (!tempInfluence.id) return;
+    const quantity: InfluenceQuantity = tempInfluence.target === 'reaction'
+      ? { target: 'reaction', id: tempInfluence.id, component: tempInfluence.component }
+      : tempInfluence;
+    updateMovingLoad(settings => ({ influenceLines: [...(settings.influenceLines ?? []), quantity] }));
+  };
+
+  // A zero mass and inertia removes the nodal mass
+  const setNodeMass = (nodeId: string, mass: number, rotationalMass: number) => {
+    if (!nodeId) return;
+    setModel(prev => ({
+      ...prev,
+      nodes: (prev.nodes ?? []).map(n => n.id === nodeId
+        ? { ...n, mass: mass > 0 ? mass : undefined, rotationalMass: rotationalMass > 0 ? rotationalMass : undefined }
+        : n)
+    }));
+  };
+
+  const addCombination = () => {
+    const factors = Object.fromEntries(Object.entries(tempCombo.factors).filter(([id, f]) => f !== 0 && loadCases.some(c => c.id === id)));
+    if (!tempCombo.name.trim() || Object.keys(factors).length === 0) return;
+    setModel(prev => ({
+      ...prev,
+      combinations: [...(prev.combinations ?? []), { id: `c${Date.now()}`, name: tempCombo.name.trim(), factors }]
+    }));
+    setTempCombo({ name: '', factors: {} });
+  };
+
+  // Regenerates the preset combinations, keeping user-defined ones
+  const applyLrfdPresets = () => {
+    const presets = asce7LrfdCombinations(loadCases);
+    if (presets.length === 0) {
+      showError("No load case matches the ASCE 7 categories.");
+      return;
+    }
+    setModel(prev => ({
+      ...prev,
+      combinations: [...(prev.combinations ?? []).filter(c => !c.id.startsWith('lrfd')), ...presets]
+    }));
+  };
+
   const clearModel = () => {
     if (confirm("Are you sure you want to clear the entire model?")) {
       setModel({ nodes: [], members: [], supports: [], loads: [] });
@@ -252,6 +556,14 @@ const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) =>
     </button>
   );
 
+  const toggleRelease = (end: 'start' | 'end', action: keyof EndRelease) => {
+    const current = tempMember.releases[end] ?? {};
+    setTempMember({
+      ...tempMember,
+      releases: { ...tempMember.releases, [end]: { ...current, [action]: !current[action] } }
+    });
+  };
+
   const getMemberTypeLabel = (type?: string) => {
     if (!type) return "Unknown";
     try {
@@ -275,6 +587,8 @@ const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) =>
         {renderTabButton('members', 'Members')}
         {renderTabButton('supports', 'Support')}
         {renderTabButton('loads', 'Loads')}
+        {renderTabButton('cases', 'Cases')}
+        {renderTabButton('analysis', 'Analysis')}
       </div>
 
       <div
@@ -362,6 +676,19 @@ const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) =>
                 </select>
               </div>
 
+              <div className="space-y-1">
+                <label className="text-xs text-slate-400">Axial Behaviour</label>
+                <select
+                  value={tempMember.behavior}
+                  onChange={(e) => setTempMember({ ...tempMember, behavior: e.target.value as MemberBehavior | '' })}
+                  className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                >
+                  <option value="">Tension and compression</option>
+                  <option value="tension">Tension only (cable, bracing)</option>
+                  <option value="compression">Compression only (contact, gap)</option>
+                </select>
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-1">
                   <label className="text-xs text-slate-400">Start</label>
@@ -426,6 +753,179 @@ const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) =>
                         />
                       </div>
                     )}
+                    <div className="space-y-1">
+                      <label className="text-xs text-slate-400">α (Thermal)</label>
+                      <SmartInput
+                        value={tempMember.alpha}
+                        onChange={val => setTempMember({ ...tempMember, alpha: val })}
+                        className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm outline-none focus:border-cyan-500"
+                      />
+                    </div>
+                    {tempMember.type === 'beam' && (
+                      <div className="space-y-1">
+                        <label className="text-xs text-slate-400">Depth (0 = auto)</label>
+                        <SmartInput
+                          value={tempMember.depth}
+                          onChange={val => setTempMember({ ...tempMember, depth: val })}
+                          className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm outline-none focus:border-cyan-500"
+                        />
+                      </div>
+                    )}
+                    <div className="space-y-1">
+                      <label className="text-xs text-slate-400">ρ (Density, 0 = none)</label>
+                      <SmartInput
+                        value={tempMember.density}
+                        onChange={val => setTempMember({ ...tempMember, density: val })}
+                        className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm outline-none focus:border-cyan-500"
+                      />
+                    </div>
+                    <div className={`space-y-1 ${tempMember.type === 'truss' ? 'col-span-2' : ''}`}>
+                      <label className="text-xs text-slate-400">Mass / Length (0 = ρ·A)</label>
+                      <SmartInput
+                        value={tempMember.massPerLength}
+                        onChange={val => setTempMember({ ...tempMember, massPerLength: val })}
+                        className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm outline-none focus:border-cyan-500"
+                      />
+                    </div>
+                    {tempMember.type === 'beam' && (
+                      <div className="space-y-1 col-span-2">
+                        <label className="text-xs text-slate-400">Shear Deformation (G = 0 for Euler–Bernoulli)</label>
+                        <div className="grid grid-cols-3 gap-2">
+                          <div className="space-y-1">
+                            <span className="text-[10px] text-slate-500">G</span>
+                            <SmartInput
+                              value={tempMember.shearModulus}
+                              onChange={val => setTempMember({ ...tempMember, shearModulus: val })}
+                              className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm outline-none focus:border-cyan-500"
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <span className="text-[10px] text-slate-500">As</span>
+                            <SmartInput
+                              value={tempMember.shearArea}
+                              onChange={val => setTempMember({ ...tempMember, shearArea: val })}
+                              className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm outline-none focus:border-cyan-500"
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <span className="text-[10px] text-slate-500">κ (As = κ·A)</span>
+                            <SmartInput
+                              value={tempMember.shearFactor}
+                              onChange={val => setTempMember({ ...tempMember, shearFactor: val })}
+                              className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm outline-none focus:border-cyan-500"
+                            />
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                    {tempMember.type === 'beam' && (
+                      <div className="space-y-1 col-span-2">
+                        <label className="text-xs text-slate-400">Taper (A, I above are the start section)</label>
+                        <select
+                          value={tempMember.taperProfile}
+                          onChange={(e) => setTempMember({ ...tempMember, taperProfile: e.target.value as MemberTaper['profile'] | '' })}
+                          className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                        >
+                          <option value="">Prismatic</option>
+                          <option value="linear">Linear (A, I)</option>
+                          <option value="parabolic">Parabolic (A, √I linear)</option>
+                          <option value="stations">Sampled stations</option>
+                        </select>
+                        {(tempMember.taperProfile === 'linear' || tempMember.taperProfile === 'parabolic') && (
+                          <div className="grid grid-cols-2 gap-2">
+                            <div className="space-y-1">
+                              <span className="text-[10px] text-slate-500">End A</span>
+                              <SmartInput
+                                value={tempMember.endArea}
+                                onChange={val => setTempMember({ ...tempMember, endArea: val })}
+                                className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm outline-none focus:border-cyan-500"
+                              />
+                            </div>
+                            <div className="space-y-1">
+                              <span className="text-[10px] text-slate-500">End I</span>
+                              <SmartInput
+                                value={tempMember.endMomentInertia}
+                                onChange={val => setTempMember({ ...tempMember, endMomentInertia: val })}
+                                className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm outline-none focus:border-cyan-500"
+                              />
+                            </div>
+                          </div>
+                        )}
+                        {tempMember.taperProfile === 'stations' && (
+                          <textarea
+                            rows={4}
+                            value={tempMember.taperStations}
+                            placeholder={'x/L, A, I per line\n0, 0.02, 4e-4\n0.2, 0.012, 1e-4\n1, 0.012, 1e-4'}
+                            onChange={e => setTempMember({ ...tempMember, taperStations: e.target.value })}
+                            className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-xs font-mono text-white focus:border-cyan-500 outline-none"
+                          />
+                        )}
+                      </div>
+                    )}
+                    {tempMember.type === 'beam' && (
+                      <div className="space-y-1 col-span-2">
+                        <div className="flex items-center justify-between">
+                          <label className="text-xs text-slate-400">Rigid End Zones</label>
+                          <div className="flex gap-1">
+                            {([['length', 'Length'], ['vector', 'Vector']] as const).map(([mode, label]) => (
+                              <button
+                                key={mode}
+                                onClick={() => setTempMember({ ...tempMember, offsetMode: mode })}
+                                className={`px-2 py-0.5 text-[10px] border rounded ${tempMember.offsetMode === mode ? 'bg-cyan-900/40 border-cyan-500 text-cyan-400' : 'border-slate-600 text-slate-400'}`}
+                              >
+                                {label}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                        {([['offsetStart', 'start'], ['offsetEnd', 'end']] as const).map(([key, end]) => (
+                          <div key={key} className="flex items-center gap-2">
+                            <span className="w-10 text-[10px] uppercase text-slate-500">{end}</span>
+                            {tempMember.offsetMode === 'length' ? (
+                              <SmartInput
+                                value={tempMember[key].length}
+                                onChange={val => setTempMember({ ...tempMember, [key]: { ...tempMember[key], length: val } })}
+                                className="flex-1 min-w-0 bg-slate-800 border border-slate-600 rounded p-1.5 text-sm outline-none focus:border-cyan-500"
+                              />
+                            ) : (
+                              (['x', 'y'] as const).map(axis => (
+                                <SmartInput
+                                  key={axis}
+                                  value={tempMember[key][axis]}
+                                  onChange={val => setTempMember({ ...tempMember, [key]: { ...tempMember[key], [axis]: val } })}
+                                  className="flex-1 min-w-0 bg-slate-800 border border-slate-600 rounded p-1.5 text-sm outline-none focus:border-cyan-500"
+                                />
+                              ))
+                            )}
+                          </div>
+                        ))}
+                        <p className="text-[10px] text-slate-500">
+                          {tempMember.offsetMode === 'length'
+                            ? 'Distance from each node to the face, along the member'
+                            : 'Global (x, y) vector from each node to the face'}
+                        </p>
+                      </div>
+                    )}
+                    {tempMember.type === 'beam' && (
+                      <div className="space-y-1 col-span-2">
+                        <label className="text-xs text-slate-400">End Releases</label>
+                        {(['start', 'end'] as const).map(end => (
+                          <div key={end} className="flex items-center gap-2">
+                            <span className="w-10 text-[10px] uppercase text-slate-500">{end}</span>
+                            {([['moment', 'M'], ['axial', 'N'], ['shear', 'V']] as const).map(([action, label]) => (
+                              <button
+                                key={action}
+                                onClick={() => toggleRelease(end, action)}
+                                title={`Release ${action} at ${end}`}
+                                className={`flex-1 py-1 text-xs border rounded ${tempMember.releases[end]?.[action] ? 'bg-cyan-900/40 border-cyan-500 text-cyan-400' : 'border-slate-600 text-slate-400'}`}
+                              >
+                                {label}
+                              </button>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -445,7 +945,7 @@ const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) =>
                   {members.map(mem => (
                     <li key={mem.id} className="flex justify-between items-center bg-slate-800/50 p-2 rounded border border-slate-700">
                       <div className="flex flex-col">
-                        <span className="text-sm font-mono text-cyan-300">{mem.id} <span className="text-xs text-slate-500">({getMemberTypeLabel(mem.type)})</span></span>
+                        <span className="text-sm font-mono text-cyan-300">{mem.id} <span className="text-xs text-slate-500">({getMemberTypeLabel(mem.type)}{mem.behavior ? `, ${mem.behavior} only` : ''})</span></span>
                         <span className="text-xs text-slate-400 flex items-center gap-1">
                           {mem.startNodeId} <ArrowRight size={10} /> {mem.endNodeId}
                         </span>
@@ -497,6 +997,29 @@ const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) =>
                   ))}
                 </div>
               </div>
+              <div className="space-y-1">
+                <label className="text-xs text-slate-400">Angle (deg, CCW from X)</label>
+                <SmartInput
+                  value={tempSupport.angle}
+                  onChange={val => setTempSupport({ ...tempSupport, angle: val })}
+                  className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-slate-400">Elastic Springs (0 = rigid/free)</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {([['kx', 'kx'], ['ky', 'ky'], ['kTheta', 'kθ']] as const).map(([key, label]) => (
+                    <div key={key} className="space-y-1">
+                      <label className="text-[10px] text-slate-500">{label}</label>
+                      <SmartInput
+                        value={tempSupport[key]}
+                        onChange={val => setTempSupport({ ...tempSupport, [key]: val })}
+                        className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
               <button
                 onClick={addSupport}
                 disabled={!tempSupport.nodeId}
@@ -510,7 +1033,10 @@ const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) =>
                   {supports.map(sup => (
                     <li key={sup.id} className="flex justify-between items-center bg-slate-800/50 p-2 rounded border border-slate-700">
                       <span className="text-sm font-mono text-cyan-300">{sup.nodeId}</span>
-                      <span className="text-xs text-slate-400 uppercase">{sup.type}</span>
+                      <span className="text-xs text-slate-400 uppercase">
+                        {sup.type}{sup.angle ? ` @ ${sup.angle}°` : ''}
+                        {(sup.kx || sup.ky || sup.kTheta) ? <span className="normal-case text-lime-400"> +k</span> : null}
+                      </span>
                       <button onClick={() => setModel(p => ({ ...p, supports: (p.supports ?? []).filter(s => s.id !== sup.id) }))} className="text-slate-500 hover:text-red-400">
                         <Trash2 size={14} />
                       </button>
@@ -518,11 +1044,110 @@ const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) =>
                   ))}
                 </ul>
               </div>
+
+              <div className="pt-4 border-t border-slate-700 space-y-3">
+                <h3 className="text-cyan-400 font-semibold text-sm uppercase tracking-wider">+ New Constraint</h3>
+                <div className="grid grid-cols-2 gap-2">
+                  {CONSTRAINT_TYPES.map(([type, label]) => (
+                    <button
+                      key={type}
+                      onClick={() => setTempConstraint({ ...tempConstraint, type })}
+                      className={`p-2 rounded text-xs uppercase font-bold border transition-all ${tempConstraint.type === type ? 'bg-cyan-900/50 border-cyan-500 text-cyan-400' : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs text-slate-400">Master Node</label>
+                  <select
+                    value={tempConstraint.masterNodeId}
+                    onChange={(e) => setTempConstraint({ ...tempConstraint, masterNodeId: e.target.value })}
+                    className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                  >
+                    <option value="">Select...</option>
+                    {nodes.map(n => <option key={n.id} value={n.id}>{n.id}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs text-slate-400">Slave Nodes</label>
+                  <div className="flex flex-wrap gap-1">
+                    {nodes.filter(n => n.id !== tempConstraint.masterNodeId).map(n => (
+                      <button
+                        key={n.id}
+                        onClick={() => setTempConstraint({ ...tempConstraint, slaveNodeIds: toggleIn(tempConstraint.slaveNodeIds, n.id) })}
+                        className={`px-2 py-1 rounded text-xs font-mono border ${tempConstraint.slaveNodeIds.includes(n.id) ? 'bg-cyan-900/50 border-cyan-500 text-cyan-300' : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                      >
+                        {n.id}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs text-slate-400">Tied DOFs</label>
+                  <div className="flex gap-3">
+                    {DOF_LABELS.map(([dof, label]) => (
+                      <label key={dof} className="flex items-center gap-1 text-xs text-slate-300">
+                        <input
+                          type="checkbox"
+                          checked={tempConstraint.dofs.includes(dof)}
+                          onChange={() => setTempConstraint({ ...tempConstraint, dofs: toggleIn(tempConstraint.dofs, dof) })}
+                          className="accent-cyan-500"
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-[10px] text-slate-500">
+                    {tempConstraint.type === 'rigid_link'
+                      ? 'Slaves move with the master as a rigid body; the master rotation moves them through the lever arm.'
+                      : 'Slaves copy the master displacements of the tied DOFs (e.g. X alone for a floor diaphragm).'}
+                  </p>
+                </div>
+                <button
+                  onClick={addConstraint}
+                  disabled={!tempConstraint.masterNodeId || tempConstraint.slaveNodeIds.filter(id => id !== tempConstraint.masterNodeId).length === 0 || tempConstraint.dofs.length === 0}
+                  className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white py-2 rounded font-medium flex items-center justify-center gap-2 transition-all active:scale-95 shadow-sm"
+                >
+                  <Plus size={16} /> Add Constraint
+                </button>
+                <div>
+                  <h4 className="text-xs font-bold text-slate-500 mb-2 uppercase">Constraints ({constraints.length})</h4>
+                  <ul className="space-y-2">
+                    {constraints.map(c => (
+                      <li key={c.id} className="flex justify-between items-center gap-2 bg-slate-800/50 p-2 rounded border border-slate-700">
+                        <span className="text-sm font-mono text-cyan-300 truncate">{c.masterNodeId} → {c.slaveNodeIds.join(', ')}</span>
+                        <span className="text-xs text-slate-400 uppercase whitespace-nowrap">
+                          {c.type === 'rigid_link' ? 'rigid' : 'equal'}{c.dofs ? ` ${c.dofs.map(d => DOF_LABELS.find(([dof]) => dof === d)?.[1]).join('')}` : ''}
+                        </span>
+                        <button onClick={() => setModel(p => ({ ...p, constraints: (p.constraints ?? []).filter(k => k.id !== c.id) }))} className="text-slate-500 hover:text-red-400">
+                          <Trash2 size={14} />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
             </div>
           )}
 
           {activeTab === 'loads' && (
             <div className="space-y-4 animate-in fade-in slide-in-from-left-4 duration-300">
+              <div className="flex items-center gap-2 bg-slate-800/50 p-2 rounded border border-slate-700">
+                <button
+                  className={`flex-1 py-1 text-xs border rounded ${model.selfWeight ? 'bg-cyan-900/40 border-cyan-500 text-cyan-400' : 'border-slate-600 text-slate-400'}`}
+                  onClick={() => setModel(prev => ({ ...prev, selfWeight: !prev.selfWeight }))}
+                  title="Apply ρ·g·A of members with a density in global −Y"
+                >
+                  Self-weight {model.selfWeight ? 'On' : 'Off'}
+                </button>
+                <label className="text-xs text-slate-400">g</label>
+                <SmartInput
+                  value={model.gravity ?? 9.81}
+                  onChange={val => setModel(prev => ({ ...prev, gravity: val }))}
+                  className="w-20 bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                />
+              </div>
               <h3 className="text-cyan-400 font-semibold text-sm uppercase tracking-wider">+ New Load</h3>
               <div className="flex bg-slate-800 rounded p-1 mb-4">
                 <button
@@ -537,21 +1162,38 @@ const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) =>
                 >
                   Member Load
                 </button>
+                <button
+                  className={`flex-1 text-xs py-1 rounded ${loadCategory === 'support' ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                  onClick={() => setLoadCategory('support')}
+                >
+                  Settlement
+                </button>
               </div>
               <div className="space-y-1">
-                <label className="text-xs text-slate-400">Target {loadCategory === 'node' ? 'Node' : 'Member'}</label>
+                <label className="text-xs text-slate-400">Target {loadCategory === 'member' ? 'Member' : loadCategory === 'support' ? 'Support Node' : 'Node'}</label>
                 <select
                   value={tempLoad.targetId}
                   onChange={(e) => setTempLoad({ ...tempLoad, targetId: e.target.value })}
                   className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
                 >
                   <option value="">Select...</option>
-                  {loadCategory === 'node'
-                    ? nodes.map(n => <option key={n.id} value={n.id}>{n.id}</option>)
-                    : members.map(m => <option key={m.id} value={m.id}>{m.id}</option>)
-                  }
+                  {loadCategory === 'node' && nodes.map(n => <option key={n.id} value={n.id}>{n.id}</option>)}
+                  {loadCategory === 'support' && supports.map(sup => <option key={sup.id} value={sup.nodeId}>{sup.nodeId}</option>)}
+                  {loadCategory === 'member' && members.map(m => <option key={m.id} value={m.id}>{m.id}</option>)}
                 </select>
               </div>
+              {loadCases.length > 0 && (
+                <div className="space-y-1">
+                  <label className="text-xs text-slate-400">Load Case</label>
+                  <select
+                    value={tempLoad.loadCaseId}
+                    onChange={(e) => setTempLoad({ ...tempLoad, loadCaseId: e.target.value })}
+                    className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                  >
+                    {loadCases.map((c, idx) => <option key={c.id} value={idx === 0 ? '' : c.id}>{c.name}</option>)}
+                  </select>
+                </div>
+              )}
               {loadCategory === 'member' && (
                 <div className="space-y-1">
                   <label className="text-xs text-slate-400">Load Distribution</label>
@@ -568,36 +1210,116 @@ const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) =>
                     >
                       Distributed
                     </button>
+                    <button
+                      className={`flex-1 py-1 text-xs border rounded ${tempLoad.type === 'thermal' ? 'bg-cyan-900/40 border-cyan-500 text-cyan-400' : 'border-slate-600 text-slate-400'}`}
+                      onClick={() => setTempLoad({ ...tempLoad, type: 'thermal' })}
+                    >
+                      Thermal
+                    </button>
                   </div>
                 </div>
               )}
-
-              <div className="grid grid-cols-3 gap-2">
+              {loadCategory === 'member' && tempLoad.type !== 'thermal' && (
                 <div className="space-y-1">
-                  <label className="text-xs text-slate-400">Fx</label>
-                  <SmartInput
-                    value={tempLoad.magX}
-                    onChange={val => setTempLoad({ ...tempLoad, magX: val })}
-                    className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
-                  />
+                  <label className="text-xs text-slate-400">Load Axes</label>
+                  <div className="flex gap-2">
+                    {(['global', 'local', 'projected'] as LoadDirection[]).map(dir => (
+                      <button
+                        key={dir}
+                        disabled={dir === 'projected' && tempLoad.type === 'point'}
+                        className={`flex-1 py-1 text-xs border rounded capitalize disabled:opacity-40 ${tempLoad.direction === dir ? 'bg-cyan-900/40 border-cyan-500 text-cyan-400' : 'border-slate-600 text-slate-400'}`}
+                        onClick={() => setTempLoad({ ...tempLoad, direction: dir })}
+                      >
+                        {dir}
+                      </button>
+                    ))}
+                  </div>
                 </div>
-                <div className="space-y-1">
-                  <label className="text-xs text-slate-400">Fy</label>
-                  <SmartInput
-                    value={tempLoad.magY}
-                    onChange={val => setTempLoad({ ...tempLoad, magY: val })}
-                    className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
-                  />
+              )}
+
+              {loadCategory === 'member' && tempLoad.type === 'thermal' ? (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <label className="text-xs text-slate-400">ΔT (uniform)</label>
+                    <SmartInput
+                      value={tempLoad.deltaT}
+                      onChange={val => setTempLoad({ ...tempLoad, deltaT: val })}
+                      className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs text-slate-400">T top − T bottom</label>
+                    <SmartInput
+                      value={tempLoad.gradientT}
+                      onChange={val => setTempLoad({ ...tempLoad, gradientT: val })}
+                      className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                    />
+                  </div>
                 </div>
-                <div className="space-y-1">
-                  <label className="text-xs text-slate-400">M</label>
-                  <SmartInput
-                    value={tempLoad.moment}
-                    onChange={val => setTempLoad({ ...tempLoad, moment: val })}
-                    className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
-                  />
+              ) : (
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="space-y-1">
+                    <label className="text-xs text-slate-400">{loadCategory === 'support' ? 'dx' : 'Fx'}</label>
+                    <SmartInput
+                      value={tempLoad.magX}
+                      onChange={val => setTempLoad({ ...tempLoad, magX: val, endMagX: tempLoad.endMagX === tempLoad.magX ? val : tempLoad.endMagX })}
+                      className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs text-slate-400">{loadCategory === 'support' ? 'dy' : 'Fy'}</label>
+                    <SmartInput
+                      value={tempLoad.magY}
+                      onChange={val => setTempLoad({ ...tempLoad, magY: val, endMagY: tempLoad.endMagY === tempLoad.magY ? val : tempLoad.endMagY })}
+                      className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs text-slate-400">{loadCategory === 'support' ? 'θ' : 'M'}</label>
+                    <SmartInput
+                      value={tempLoad.moment}
+                      onChange={val => setTempLoad({ ...tempLoad, moment: val })}
+                      className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                    />
+                  </div>
                 </div>
-              </div>
+              )}
+              {loadCategory === 'member' && tempLoad.type === 'distributed' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <label className="text-xs text-slate-400">Fx end</label>
+                    <SmartInput
+                      value={tempLoad.endMagX}
+                      onChange={val => setTempLoad({ ...tempLoad, endMagX: val })}
+                      className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs text-slate-400">Fy end</label>
+                    <SmartInput
+                      value={tempLoad.endMagY}
+                      onChange={val => setTempLoad({ ...tempLoad, endMagY: val })}
+                      className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs text-slate-400">Start offset</label>
+                    <SmartInput
+                      value={tempLoad.startOffset}
+                      onChange={val => setTempLoad({ ...tempLoad, startOffset: val })}
+                      className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs text-slate-400">End offset</label>
+                    <SmartInput
+                      value={tempLoad.endOffset}
+                      onChange={val => setTempLoad({ ...tempLoad, endOffset: val })}
+                      className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                    />
+                  </div>
+                </div>
+              )}
               {loadCategory === 'member' && tempLoad.type === 'point' && (
                 <div className="space-y-1">
                   <label className="text-xs text-slate-400">Distance from Start</label>
@@ -620,12 +1342,32 @@ const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) =>
                 <ul className="space-y-2">
                   {loads.map(load => (
                     <li key={load.id} className="flex justify-between items-center bg-slate-800/50 p-2 rounded border border-slate-700">
-                      <span className="text-sm font-mono text-cyan-300">{load.nodeId || load.memberId}</span>
-                      <span className="text-xs text-slate-400">
-                        {Math.abs(load.magnitudeX) > 0 && `Fx:${load.magnitudeX} `}
-                        {Math.abs(load.magnitudeY) > 0 && `Fy:${load.magnitudeY} `}
-                        {load.moment !== 0 && `M:${load.moment}`}
+                      <span className="text-sm font-mono text-cyan-300">
+                        {load.nodeId || load.memberId}
+                        {loadCases.length > 0 && <span className="block text-[10px] text-slate-500">{loadCases.find(c => c.id === caseOfLoad(load))?.name}</span>}
                       </span>
+                      {load.type === LoadType.MEMBER_THERMAL ? (
+                        <span className="text-xs text-orange-300">
+                          {`ΔT:${load.deltaT ?? 0} `}
+                          {(load.temperatureGradient ?? 0) !== 0 && `∇T:${load.temperatureGradient}`}
+                        </span>
+                      ) : load.type === LoadType.SUPPORT_DISPLACEMENT ? (
+                        <span className="text-xs text-purple-300">
+                          {Math.abs(load.magnitudeX) > 0 && `dx:${load.magnitudeX} `}
+                          {Math.abs(load.magnitudeY) > 0 && `dy:${load.magnitudeY} `}
+                          {(load.moment ?? 0) !== 0 && `θ:${load.moment}`}
+                        </span>
+                      ) : (
+                        <span className="text-xs text-slate-400">
+                          {Math.abs(load.magnitudeX) > 0 && `Fx:${load.magnitudeX} `}
+                          {load.endMagnitudeX !== undefined && `→${load.endMagnitudeX} `}
+                          {Math.abs(load.magnitudeY) > 0 && `Fy:${load.magnitudeY} `}
+                          {load.endMagnitudeY !== undefined && `→${load.endMagnitudeY} `}
+                          {!!(load.startOffset || load.endOffset) && `off:${load.startOffset ?? 0}/${load.endOffset ?? 0} `}
+                          {load.moment !== 0 && `M:${load.moment} `}
+                          {load.memberId && `(${load.direction || 'local'})`}
+                        </span>
+                      )}
                       <button onClick={() => setModel(p => ({ ...p, loads: (p.loads ?? []).filter(l => l.id !== load.id) }))} className="text-slate-500 hover:text-red-400">
                         <Trash2 size={14} />
                       </button>
@@ -636,6 +1378,621 @@ const Sidebar: React.FC<SidebarProps> = ({ model, setModel, onCloseMobile }) =>
             </div>
           )}
 
+          {activeTab === 'cases' && (
+            <div className="space-y-4 animate-in fade-in slide-in-from-left-4 duration-300">
+              <h3 className="text-cyan-400 font-semibold text-sm uppercase tracking-wider">+ New Load Case</h3>
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  value={tempCase.name}
+                  onChange={e => setTempCase({ ...tempCase, name: e.target.value })}
+                  placeholder="Name (e.g. Dead)"
+                  className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                />
+                <select
+                  value={tempCase.category}
+                  onChange={e => setTempCase({ ...tempCase, category: e.target.value as LoadCaseCategory })}
+                  className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                >
+                  {LOAD_CASE_CATEGORIES.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+              </div>
+              <button
+                onClick={addLoadCase}
+                disabled={!tempCase.name.trim()}
+                className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white py-2 rounded font-medium flex items-center justify-center gap-2 transition-all active:scale-95 shadow-sm"
+              >
+                <Plus size={16} /> Add Load Case
+              </button>
+              <div>
+                <h4 className="text-xs font-bold text-slate-500 mb-2 uppercase">Load Cases ({loadCases.length})</h4>
+                {loadCases.length === 0 && <p className="text-xs text-slate-500">Without load cases all loads form a single case.</p>}
+                <ul className="space-y-2">
+                  {loadCases.map((c, idx) => (
+                    <li key={c.id} className="flex justify-between items-center bg-slate-800/50 p-2 rounded border border-slate-700">
+                      <span className="text-sm font-mono text-cyan-300">{c.name}</span>
+                      <span className="text-xs text-slate-400">
+                        {LOAD_CASE_CATEGORIES.find(([value]) => value === c.category)?.[1] ?? 'Other'}
+                        {` · ${loads.filter(l => caseOfLoad(l) === c.id).length} loads`}
+                        {idx === 0 && ' (default)'}
+                      </span>
+                      <button onClick={() => removeLoadCase(c.id)} className="text-slate-500 hover:text-red-400">
+                        <Trash2 size={14} />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {loadCases.length > 0 && (
+                <div className="space-y-4 pt-4 border-t border-slate-700">
+                  <h3 className="text-cyan-400 font-semibold text-sm uppercase tracking-wider">+ New Combination</h3>
+                  <input
+                    value={tempCombo.name}
+                    onChange={e => setTempCombo({ ...tempCombo, name: e.target.value })}
+                    placeholder="Name (e.g. 1.2D + 1.6L)"
+                    className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                  />
+                  <div className="grid grid-cols-3 gap-2">
+                    {loadCases.map(c => (
+                      <div key={c.id} className="space-y-1">
+                        <label className="text-[10px] text-slate-500 truncate block">{c.name}</label>
+                        <SmartInput
+                          value={tempCombo.factors[c.id] ?? 0}
+                          onChange={val => setTempCombo({ ...tempCombo, factors: { ...tempCombo.factors, [c.id]: val } })}
+                          className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white focus:border-cyan-500 outline-none"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={addCombination}
+                      disabled={!tempCombo.name.trim()}
+                      className="flex-1 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white py-2 rounded font-medium flex items-center justify-center gap-2 transition-all active:scale-95 shadow-sm"
+                    >
+                      <Plus size={16} /> Add
+                    </button>
+                    <button
+                      onClick={applyLrfdPresets}
+                      title="Generate the ASCE 7 LRFD combinations from the load case categories"
+                      className="flex-1 py-2 text-xs border rounded border-cyan-700 text-cyan-400 hover:bg-cyan-900/30 transition-all"
+                    >
+                      ASCE 7 LRFD
+                    </button>
+                  </div>
+                  <div>
+                    <h4 className="text-xs font-bold text-slate-500 mb-2 uppercase">Combinations ({combinations.length})</h4>
+                    <ul className="space-y-2">
+                      {combinations.map(combo => (
+                        <li key={combo.id} className="flex justify-between items-center bg-slate-800/50 p-2 rounded border border-slate-700">
+                          <span className="text-xs font-mono text-cyan-300">{combo.name}</span>
+                          <button onClick={() => setModel(p => ({ ...p, combinations: (p.combinations ?? []).filter(c => c.id !== combo.id) }))} className="text-slate-500 hover:text-red-400">
+                            <Trash2 size={14} />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'analysis' && (
+            <div className="space-y-4 animate-in fade-in slide-in-from-left-4 duration-300">
+              <h3 className="text-cyan-400 font-semibold text-sm uppercase tracking-wider">Second Order</h3>
+              <div className="bg-slate-800/50 p-2 rounded border border-slate-700 space-y-2">
+                <button
+                  className={`w-full py-1 text-xs border rounded ${model.pDelta ? 'bg-cyan-900/40 border-cyan-500 text-cyan-400' : 'border-slate-600 text-slate-400'}`}
+                  onClick={() => setModel(prev => ({ ...prev, pDelta: !prev.pDelta }))}
+                  title="Iterate with the geometric stiffness of the member axial forces"
+                >
+                  P-Delta {model.pDelta ? 'On' : 'Off'}
+                </button>
+                <p className="text-[10px] text-slate-500">
+                  All loads and every combination are re-solved with the axial forces until they converge; load cases stay first-order.
+                  Results report the amplification over the first-order run.
+                </p>
+              </div>
+
+              <h3 className="text-cyan-400 font-semibold text-sm uppercase tracking-wider">Member Sampling</h3>
+              <div className="bg-slate-800/50 p-2 rounded border border-slate-700 space-y-2">
+                <div>
+                  <label className="text-xs text-slate-400">Stations per Member</label>
+                  <SmartInput
+                    value={model.memberStations ?? 11}
+                    onChange={val => setModel(prev => ({ ...prev, memberStations: Math.max(2, Math.round(val)) }))}
+                    className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                  />
+                </div>
+                <p className="text-[10px] text-slate-500">
+                  Internal forces and deflections are also reported under point loads and where the shear is zero, so the extremes between the ends are exact.
+                </p>
+              </div>
+
+              <h3 className="text-cyan-400 font-semibold text-sm uppercase tracking-wider">Buckling</h3>
+              <div className="bg-slate-800/50 p-2 rounded border border-slate-700 space-y-2">
+                <button
+                  className={`w-full py-1 text-xs border rounded ${model.buckling ? 'bg-cyan-900/40 border-cyan-500 text-cyan-400' : 'border-slate-600 text-slate-400'}`}
+                  onClick={() => setModel(prev => ({ ...prev, buckling: prev.buckling ? undefined : { modes: 3 } }))}
+                  title="Solve (K + λK_g)φ = 0 for the critical load factors of the reference loads"
+                >
+                  Buckling {model.buckling ? 'On' : 'Off'}
+                </button>
+                {model.buckling && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="text-xs text-slate-400">Modes</label>
+                      <SmartInput
+                        value={model.buckling.modes ?? 3}
+                        onChange={val => setModel(prev => ({ ...prev, buckling: { ...prev.buckling, modes: Math.max(1, Math.round(val)) } }))}
+                        className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs text-slate-400">Reference Loads</label>
+                      <select
+                        value={model.buckling.loadCaseId ?? ''}
+                        onChange={e => setModel(prev => ({ ...prev, buckling: { ...prev.buckling, loadCaseId: e.target.value || undefined } }))}
+                        className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                      >
+                        <option value="">All loads</option>
+                        {loadCases.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                      </select>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <h3 className="text-cyan-400 font-semibold text-sm uppercase tracking-wider">Modal</h3>
+              <div className="bg-slate-800/50 p-2 rounded border border-slate-700 space-y-2">
+                <button
+                  className={`w-full py-1 text-xs border rounded ${model.modal ? 'bg-cyan-900/40 border-cyan-500 text-cyan-400' : 'border-slate-600 text-slate-400'}`}
+                  onClick={() => setModel(prev => ({ ...prev, modal: prev.modal ? undefined : { modes: 6, massType: 'consistent' } }))}
+                  title="Natural frequencies, mode shapes and participating mass from the member and nodal masses"
+                >
+                  Modal {model.modal ? 'On' : 'Off'}
+                </button>
+                {model.modal && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="text-xs text-slate-400">Modes</label>
+                      <SmartInput
+                        value={model.modal.modes ?? 6}
+                        onChange={val => setModel(prev => ({ ...prev, modal: { ...prev.modal, modes: Math.max(1, Math.round(val)) } }))}
+                        className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs text-slate-400">Mass Matrix</label>
+                      <div className="flex gap-1">
+                        {(['consistent', 'lumped'] as const).map(massType => (
+                          <button
+                            key={massType}
+                            className={`flex-1 py-1 text-xs border rounded capitalize ${(model.modal?.massType ?? 'consistent') === massType ? 'bg-cyan-900/40 border-cyan-500 text-cyan-400' : 'border-slate-600 text-slate-400'}`}
+                            onClick={() => setModel(prev => ({ ...prev, modal: { ...prev.modal, massType } }))}
+                          >
+                            {massType}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
+                <p className="text-[10px] text-slate-500">Member mass is the mass per length, or ρ·A when only a density is given.</p>
+              </div>
+
+              <h4 className="text-xs font-bold text-slate-500 uppercase">Nodal Masses</h4>
+              <div className="grid grid-cols-3 gap-2">
+                <select
+                  value={tempMass.nodeId}
+                  onChange={e => setTempMass({ ...tempMass, nodeId: e.target.value })}
+                  className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                >
+                  <option value="">Node</option>
+                  {nodes.map(n => <option key={n.id} value={n.id}>{n.id}</option>)}
+                </select>
+                <div>
+                  <label className="text-xs text-slate-400">m</label>
+                  <SmartInput
+                    value={tempMass.mass}
+                    onChange={val => setTempMass({ ...tempMass, mass: val })}
+                    className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-slate-400">J (rotation)</label>
+                  <SmartInput
+                    value={tempMass.rotationalMass}
+                    onChange={val => setTempMass({ ...tempMass, rotationalMass: val })}
+                    className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                  />
+                </div>
+              </div>
+              <button
+                onClick={() => setNodeMass(tempMass.nodeId, tempMass.mass, tempMass.rotationalMass)}
+                disabled={!tempMass.nodeId}
+                className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white py-2 rounded font-medium flex items-center justify-center gap-2 transition-all active:scale-95 shadow-sm"
+              >
+                <Plus size={16} /> Set Mass
+              </button>
+              <ul className="space-y-2">
+                {nodes.filter(n => n.mass || n.rotationalMass).map(n => (
+                  <li key={n.id} className="flex justify-between items-center bg-slate-800/50 p-2 rounded border border-slate-700">
+                    <span className="text-sm font-mono text-cyan-300">{n.id}</span>
+                    <span className="text-xs text-slate-400">m = {n.mass ?? 0}{n.rotationalMass ? `, J = ${n.rotationalMass}` : ''}</span>
+                    <button onClick={() => setNodeMass(n.id, 0, 0)} className="text-slate-500 hover:text-red-400">
+                      <Trash2 size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              <h3 className="text-cyan-400 font-semibold text-sm uppercase tracking-wider">Response Spectrum</h3>
+              <div className="bg-slate-800/50 p-2 rounded border border-slate-700 space-y-2">
+                <button
+                  className={`w-full py-1 text-xs border rounded ${model.responseSpectrum ? 'bg-cyan-900/40 border-cyan-500 text-cyan-400' : 'border-slate-600 text-slate-400'}`}
+                  onClick={() => setModel(prev => ({
+                    ...prev,
+                    responseSpectrum: prev.responseSpectrum ? undefined : { direction: 'x', code: { sds: 1, sd1: 0.6 }, scale: 9.81, combination: 'cqc' }
+                  }))}
+                  title="Peak modal responses to a design spectrum, combined by SRSS or CQC"
+                >
+                  Response Spectrum {model.responseSpectrum ? 'On' : 'Off'}
+                </button>
+                {model.responseSpectrum && (
+                  <>
+                    <div className="flex gap-1">
+                      {(['x', 'y'] as const).map(direction => (
+                        <button
+                          key={direction}
+                          className={`flex-1 py-1 text-xs border rounded ${model.responseSpectrum?.direction === direction ? 'bg-cyan-900/40 border-cyan-500 text-cyan-400' : 'border-slate-600 text-slate-400'}`}
+                          onClick={() => updateResponseSpectrum({ direction })}
+                        >
+                          Global {direction.toUpperCase()}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex gap-1">
+                      <button
+                        className={`flex-1 py-1 text-xs border rounded ${!model.responseSpectrum.spectrum ? 'bg-cyan-900/40 border-cyan-500 text-cyan-400' : 'border-slate-600 text-slate-400'}`}
+                        onClick={() => updateResponseSpectrum({ spectrum: undefined, code: model.responseSpectrum?.code ?? { sds: 1, sd1: 0.6 } })}
+                      >
+                        ASCE 7 Shape
+                      </button>
+                      <button
+                        className={`flex-1 py-1 text-xs border rounded ${model.responseSpectrum.spectrum ? 'bg-cyan-900/40 border-cyan-500 text-cyan-400' : 'border-slate-600 text-slate-400'}`}
+                        onClick={() => updateResponseSpectrum({ spectrum: model.responseSpectrum?.spectrum ?? [], code: undefined })}
+                      >
+                        Tabulated
+                      </button>
+                    </div>
+                    {model.responseSpectrum.spectrum ? (
+                      <TimeSeriesInput
+                        points={model.responseSpectrum.spectrum}
+                        onChange={spectrum => updateResponseSpectrum({ spectrum })}
+                        placeholder={'T, Sa\n0, 0.4\n0.12, 1\n0.6, 1\n2, 0.3'}
+                      />
+                    ) : (
+                      <div className="grid grid-cols-3 gap-2">
+                        {([['sds', 'S_DS (g)'], ['sd1', 'S_D1 (g)'], ['longPeriod', 'T_L (s)']] as const).map(([key, label]) => (
+                          <div key={key}>
+                            <label className="text-xs text-slate-400">{label}</label>
+                            <SmartInput
+                              value={model.responseSpectrum?.code?.[key] ?? (key === 'longPeriod' ? 8 : 0)}
+                              onChange={val => updateResponseSpectrum({ code: { sds: 0, sd1: 0, ...model.responseSpectrum?.code, [key]: Math.max(0, val) } })}
+                              className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <div className="grid grid-cols-3 gap-2">
+                      <div>
+                        <label className="text-xs text-slate-400">Scale</label>
+                        <SmartInput
+                          value={model.responseSpectrum.scale ?? 1}
+                          onChange={val => updateResponseSpectrum({ scale: val })}
+                          className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs text-slate-400">Modes</label>
+                        <SmartInput
+                          value={model.responseSpectrum.modes ?? 12}
+                          onChange={val => updateResponseSpectrum({ modes: Math.max(1, Math.round(val)) })}
+                          className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs text-slate-400">Damping ξ</label>
+                        <SmartInput
+                          value={model.responseSpectrum.dampingRatio ?? 0.05}
+                          onChange={val => updateResponseSpectrum({ dampingRatio: Math.max(0, val) })}
+                          className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex gap-1">
+                      {(['srss', 'cqc'] as const).map(combination => (
+                        <button
+                          key={combination}
+                          className={`flex-1 py-1 text-xs border rounded uppercase ${(model.responseSpectrum?.combination ?? 'cqc') === combination ? 'bg-cyan-900/40 border-cyan-500 text-cyan-400' : 'border-slate-600 text-slate-400'}`}
+                          onClick={() => updateResponseSpectrum({ combination })}
+                        >
+                          {combination}
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+                <p className="text-[10px] text-slate-500">
+                  Sa is multiplied by the scale (e.g. 9.81·Iₑ/R for a spectrum in g). Combined results are peak magnitudes without sign.
+                </p>
+              </div>
+
+              <h3 className="text-cyan-400 font-semibold text-sm uppercase tracking-wider">Moving Loads</h3>
+              <div className="bg-slate-800/50 p-2 rounded border border-slate-700 space-y-2">
+                <button
+                  className={`w-full py-1 text-xs border rounded ${model.movingLoad ? 'bg-cyan-900/40 border-cyan-500 text-cyan-400' : 'border-slate-600 text-slate-400'}`}
+                  onClick={() => setModel(prev => ({ ...prev, movingLoad: prev.movingLoad ? undefined : { path: [] } }))}
+                  title="Influence lines and axle-train envelopes along a path of members"
+                >
+                  Moving Loads {model.movingLoad ? 'On' : 'Off'}
+                </button>
+                {model.movingLoad && (
+                  <>
+                    <div>
+                      <label className="text-xs text-slate-400">Path (click members in travel order)</label>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {members.filter(m => m.type !== 'spring').map(m => {
+                          const index = model.movingLoad?.path.indexOf(m.id) ?? -1;
+                          return (
+                            <button
+                              key={m.id}
+                              onClick={() => togglePathMember(m.id)}
+                              className={`px-1.5 py-0.5 rounded border text-[10px] font-mono ${index >= 0 ? 'border-cyan-500 text-cyan-300 bg-cyan-900/40' : 'border-slate-600 text-slate-400 hover:text-white'}`}
+                            >
+                              {index >= 0 ? `${index + 1}. ` : ''}{m.id}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="text-xs text-slate-400">Step (0 = 1/100 of the path)</label>
+                      <SmartInput
+                        value={model.movingLoad.step ?? 0}
+                        onChange={val => updateMovingLoad(() => ({ step: val > 0 ? val : undefined }))}
+                        className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                      />
+                    </div>
+
+                    <h4 className="text-xs font-bold text-slate-500 uppercase">Axle Train (downward)</h4>
+                    <div className="grid grid-cols-3 gap-2 items-end">
+                      <div>
+                        <label className="text-xs text-slate-400">Offset</label>
+                        <SmartInput
+                          value={tempAxle.offset}
+                          onChange={val => setTempAxle({ ...tempAxle, offset: Math.max(0, val) })}
+                          className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs text-slate-400">Load</label>
+                        <SmartInput
+                          value={tempAxle.load}
+                          onChange={val => setTempAxle({ ...tempAxle, load: val })}
+                          className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                        />
+                      </div>
+                      <button
+                        onClick={addAxle}
+                        className="bg-blue-600 hover:bg-blue-500 text-white py-1 rounded text-xs font-medium flex items-center justify-center gap-1"
+                      >
+                        <Plus size={12} /> Axle
+                      </button>
+                    </div>
+                    <ul className="space-y-1">
+                      {(model.movingLoad.axles ?? []).map((axle, i) => (
+                        <li key={i} className="flex justify-between items-center bg-slate-800/50 px-2 py-1 rounded border border-slate-700 text-xs">
+                          <span className="text-slate-300 font-mono">{axle.load} at {axle.offset} behind the lead axle</span>
+                          <button onClick={() => updateMovingLoad(settings => ({ axles: (settings.axles ?? []).filter((_, j) => j !== i) }))} className="text-slate-500 hover:text-red-400">
+                            <Trash2 size={12} />
+                          </button>
+                        </li>
+                      ))}
+                      {!model.movingLoad.axles?.length && <li className="text-[10px] text-slate-500">No axles: a unit load travels the path.</li>}
+                    </ul>
+
+                    <h4 className="text-xs font-bold text-slate-500 uppercase">Influence Lines</h4>
+                    <div className="grid grid-cols-2 gap-2">
+                      <select
+                        value={tempInfluence.target}
+                        onChange={e => setTempInfluence({ ...tempInfluence, target: e.target.value as InfluenceQuantity['target'], id: '' })}
+                        className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                      >
+                        <option value="reaction">Reaction</option>
+                        <option value="section">Member section</option>
+                      </select>
+                      <select
+                        value={tempInfluence.id}
+                        onChange={e => setTempInfluence({ ...tempInfluence, id: e.target.value })}
+                        className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                      >
+                        <option value="">{tempInfluence.target === 'reaction' ? 'Support node' : 'Member'}</option>
+                        {tempInfluence.target === 'reaction'
+                          ? supports.map(s => <option key={s.id} value={s.nodeId}>{s.nodeId}</option>)
+                          : members.filter(m => m.type !== 'spring').map(m => <option key={m.id} value={m.id}>{m.id}</option>)}
+                      </select>
+                      <select
+                        value={tempInfluence.component}
+                        onChange={e => setTempInfluence({ ...tempInfluence, component: e.target.value as InfluenceQuantity['component'] })}
+                        className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                      >
+                        {tempInfluence.target === 'reaction'
+                          ? <><option value="fx">Rx</option><option value="fy">Ry</option><option value="moment">Mz</option></>
+                          : <><option value="fx">Axial N</option><option value="fy">Shear V</option><option value="moment">Moment M</option></>}
+                      </select>
+                      {tempInfluence.target === 'section' && (
+                        <div>
+                          <label className="text-xs text-slate-400">Station from start</label>
+                          <SmartInput
+                            value={tempInfluence.station ?? 0}
+                            onChange={val => setTempInfluence({ ...tempInfluence, station: Math.max(0, val) })}
+                            className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                          />
+                        </div>
+                      )}
+                    </div>
+                    <button
+                      onClick={addInfluenceLine}
+                      disabled={!tempInfluence.id}
+                      className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white py-1 rounded text-xs font-medium flex items-center justify-center gap-1"
+                    >
+                      <Plus size={12} /> Influence Line
+                    </button>
+                    <ul className="space-y-1">
+                      {(model.movingLoad.influenceLines ?? []).map((q, i) => (
+                        <li key={i} className="flex justify-between items-center bg-slate-800/50 px-2 py-1 rounded border border-slate-700 text-xs">
+                          <span className="text-cyan-300 font-mono">{influenceLabel(q)}</span>
+                          <button onClick={() => updateMovingLoad(settings => ({ influenceLines: (settings.influenceLines ?? []).filter((_, j) => j !== i) }))} className="text-slate-500 hover:text-red-400">
+                            <Trash2 size={12} />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+                <p className="text-[10px] text-slate-500">
+                  The train runs along the path with the loads acting in global −Y; applied loads of the model are left out of these results.
+                </p>
+              </div>
+
+              <h3 className="text-cyan-400 font-semibold text-sm uppercase tracking-wider">Time History</h3>
+              <div className="bg-slate-800/50 p-2 rounded border border-slate-700 space-y-2">
+                <button
+                  className={`w-full py-1 text-xs border rounded ${model.timeHistory ? 'bg-cyan-900/40 border-cyan-500 text-cyan-400' : 'border-slate-600 text-slate-400'}`}
+                  onClick={() => setModel(prev => ({ ...prev, timeHistory: prev.timeHistory ? undefined : { duration: 10, timeStep: 0.01, dampingRatio: 0.05 } }))}
+                  title="Newmark (average acceleration) integration of time-varying loads or ground motion"
+                >
+                  Time History {model.timeHistory ? 'On' : 'Off'}
+                </button>
+                {model.timeHistory && (
+                  <>
+                    <div className="grid grid-cols-3 gap-2">
+                      <div>
+                        <label className="text-xs text-slate-400">Duration (s)</label>
+                        <SmartInput
+                          value={model.timeHistory.duration}
+                          onChange={val => updateTimeHistory({ duration: Math.max(0, val) })}
+                          className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs text-slate-400">Δt (s)</label>
+                        <SmartInput
+                          value={model.timeHistory.timeStep}
+                          onChange={val => updateTimeHistory({ timeStep: Math.max(0, val) })}
+                          className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs text-slate-400">Damping ξ</label>
+                        <SmartInput
+                          value={model.timeHistory.dampingRatio ?? 0.05}
+                          onChange={val => updateTimeHistory({ dampingRatio: Math.max(0, val) })}
+                          className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                        />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      {[0, 1].map(i => (
+                        <div key={i}>
+                          <label className="text-xs text-slate-400">ξ at f{i + 1} (Hz, 0 = mode {i + 1})</label>
+                          <SmartInput
+                            value={model.timeHistory?.dampingFrequencies?.[i] ?? 0}
+                            onChange={val => {
+                              const frequencies: [number, number] = [...(model.timeHistory?.dampingFrequencies ?? [0, 0])];
+                              frequencies[i] = Math.max(0, val);
+                              updateTimeHistory({ dampingFrequencies: frequencies.some(f => f > 0) ? frequencies : undefined });
+                            }}
+                            className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <div>
+                      <label className="text-xs text-slate-400">Mass Matrix</label>
+                      <div className="flex gap-1">
+                        {(['consistent', 'lumped'] as const).map(massType => (
+                          <button
+                            key={massType}
+                            className={`flex-1 py-1 text-xs border rounded capitalize ${(model.timeHistory?.massType ?? 'consistent') === massType ? 'bg-cyan-900/40 border-cyan-500 text-cyan-400' : 'border-slate-600 text-slate-400'}`}
+                            onClick={() => updateTimeHistory({ massType })}
+                          >
+                            {massType}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <h4 className="text-xs font-bold text-slate-500 uppercase">Load Function f(t)</h4>
+                    <select
+                      value={model.timeHistory.loadCaseId ?? ''}
+                      onChange={e => updateTimeHistory({ loadCaseId: e.target.value || undefined })}
+                      className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                    >
+                      <option value="">All loads</option>
+                      {loadCases.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                    <TimeSeriesInput
+                      points={model.timeHistory.loadFunction ?? []}
+                      onChange={points => updateTimeHistory({ loadFunction: points.length > 0 ? points : undefined })}
+                      placeholder={'t, f\n0, 0\n0.1, 1\n5, 1'}
+                    />
+
+                    <h4 className="text-xs font-bold text-slate-500 uppercase">Ground Acceleration</h4>
+                    <div className="flex gap-1">
+                      {([undefined, 'x', 'y'] as const).map(direction => (
+                        <button
+                          key={direction ?? 'none'}
+                          className={`flex-1 py-1 text-xs border rounded ${model.timeHistory?.groundMotion?.direction === direction ? 'bg-cyan-900/40 border-cyan-500 text-cyan-400' : 'border-slate-600 text-slate-400'}`}
+                          onClick={() => updateTimeHistory({
+                            groundMotion: direction ? { record: [], scale: 1, ...model.timeHistory?.groundMotion, direction } : undefined
+                          })}
+                        >
+                          {direction ? `Global ${direction.toUpperCase()}` : 'None'}
+                        </button>
+                      ))}
+                    </div>
+                    {model.timeHistory.groundMotion && (
+                      <>
+                        <div>
+                          <label className="text-xs text-slate-400">Scale (e.g. 9.81 for a record in g)</label>
+                          <SmartInput
+                            value={model.timeHistory.groundMotion.scale ?? 1}
+                            onChange={val => updateTimeHistory({ groundMotion: { ...model.timeHistory!.groundMotion!, scale: val } })}
+                            className="w-full bg-slate-800 border border-slate-600 rounded p-1 text-sm text-white focus:border-cyan-500 outline-none"
+                          />
+                        </div>
+                        <TimeSeriesInput
+                          points={model.timeHistory.groundMotion.record}
+                          onChange={record => updateTimeHistory({ groundMotion: { ...model.timeHistory!.groundMotion!, record } })}
+                          placeholder={'t, a_g\n0, 0\n0.02, 0.013\n...'}
+                        />
+                      </>
+                    )}
+                  </>
+                )}
+                <p className="text-[10px] text-slate-500">
+                  Starts at rest; loads are multiplied by f(t) and ground motion gives displacements relative to the ground.
+                  Damping is Rayleigh, matching ξ at two frequencies.
+                </p>
+              </div>
+            </div>
+          )}
+
           <div className="pt-4 mt-4 border-t border-slate-700">
             <button onClick={clearModel} className="w-full py-2 text-red-400 hover:text-red-300 hover:bg-red-900/20 rounded border border-red-900/50 flex items-center justify-center gap-2 text-sm transition-all shadow-sm">
               <Trash2 size={14} /> Clear Model
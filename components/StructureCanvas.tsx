@@ -1,8 +1,18 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { StructureModel, SupportType, LoadType, AnalysisResults } from '../frame/types';
-import { ZoomIn, ZoomOut, Maximize, Activity } from 'lucide-react';
+import { StructureModel, SupportType, LoadType, AnalysisResults, ResultSet, NodalDisplacement, EndOffset } from '../frame/types';
+import { ZoomIn, ZoomOut, Maximize, Activity, AlertTriangle } from 'lucide-react';
 import { subscribeToAnalysisCount } from '../services/firebase';
+import TimeHistoryPanel from './TimeHistoryPanel';
+import InfluenceLinePanel from './InfluenceLinePanel';
+
+// World-space vector from a node to the face of its rigid end zone (sign +1 at the start, −1 at the end)
+const offsetVector = (offset: EndOffset | undefined, dx: number, dy: number, sign: number) => {
+  if (!offset) return null;
+  if (typeof offset !== 'number') return { x: offset.x, y: offset.y };
+  const length = Math.sqrt(dx * dx + dy * dy) || 1;
+  return { x: sign * offset * dx / length, y: sign * offset * dy / length };
+};
 
 interface StructureCanvasProps {
   model: StructureModel;
@@ -18,6 +28,35 @@ const StructureCanvas: React.FC<StructureCanvasProps> = ({ model, analysisResult
   const [isDragging, setIsDragging] = useState(false);
   const [lastMouse, setLastMouse] = useState({ x: 0, y: 0 });
   const [globalAnalysisCount, setGlobalAnalysisCount] = useState<number | null>(null);
+  const [mechanismIndex, setMechanismIndex] = useState(0);
+  // Buckling or vibration mode drawn over the structure, or null when hidden
+  const [shownMode, setShownMode] = useState<{ kind: 'buckling' | 'modal'; index: number } | null>(null);
+  // Result set on display: 'all', 'first' (first-order of a P-Delta run), 'case:<id>', 'combo:<id>', 'max', 'min',
+  // 'frame' (time-history frame being played), 'peak:max' / 'peak:min', 'spectrum' (combined response spectrum peaks)
+  // or 'moving:max' / 'moving:min' (axle-train envelope)
+  const [resultKey, setResultKey] = useState('all');
+  const [frameIndex, setFrameIndex] = useState(0);
+
+  useEffect(() => {
+    setMechanismIndex(0);
+    setShownMode(null);
+    setResultKey('all');
+    setFrameIndex(0);
+  }, [analysisResults]);
+
+  const shownResults: ResultSet | null = (() => {
+    if (!analysisResults) return null;
+    const [kind, id] = resultKey.split(':');
+    if (kind === 'case') return analysisResults.loadCases?.[id] ?? analysisResults;
+    if (kind === 'combo') return analysisResults.combinations?.[id] ?? analysisResults;
+    if (kind === 'max' || kind === 'min') return analysisResults.envelope?.[kind] ?? analysisResults;
+    if (kind === 'first') return analysisResults.pDelta?.firstOrder ?? analysisResults;
+    if (kind === 'frame') return analysisResults.timeHistory?.frames[frameIndex] ?? analysisResults;
+    if (kind === 'peak') return analysisResults.timeHistory?.peak[id as 'max' | 'min'] ?? analysisResults;
+    if (kind === 'spectrum') return analysisResults.responseSpectrum?.response ?? analysisResults;
+    if (kind === 'moving') return analysisResults.movingLoad?.envelope[id as 'max' | 'min'] ?? analysisResults;
+    return analysisResults;
+  })();
 
   // Subscribe to analysis count
   useEffect(() => {
@@ -172,6 +211,9 @@ const StructureCanvas: React.FC<StructureCanvasProps> = ({ model, analysisResult
     const isVertical = Math.abs(dy) > Math.abs(dx);
     const labelX = isVertical ? midX + 10 : midX;
     const labelY = isVertical ? midY : midY - 10;
+    // Tension/compression-only members are tagged T/C and fade out while slack under all loads
+    const behaviorTag = member.behavior === 'tension' ? ' (T)' : member.behavior === 'compression' ? ' (C)' : '';
+    const slack = !!analysisResults?.isStable && !!analysisResults.activeSet?.slackMembers.includes(member.id);
 
     if (member.type === 'spring') {
       const length = Math.sqrt(dx * dx + dy * dy);
@@ -189,17 +231,50 @@ const StructureCanvas: React.FC<StructureCanvasProps> = ({ model, analysisResult
         else d += ` L ${p2.x} ${p2.y}`;
       }
       return (
-        <g key={member.id}>
+        <g key={member.id} opacity={slack ? 0.3 : 1}>
           <path d={d} stroke="#a3e635" strokeWidth="2" fill="none" />
-          <text x={labelX} y={labelY} fill="#a3e635" fontSize="10" textAnchor={isVertical ? "start" : "middle"}>k={member.springConstant}</text>
+          <text x={labelX} y={labelY} fill="#a3e635" fontSize="10" textAnchor={isVertical ? "start" : "middle"}>k={member.springConstant}{behaviorTag}{slack ? ' slack' : ''}</text>
         </g>
       );
     }
     const color = member.type === 'truss' ? '#fbbf24' : '#38bdf8';
+
+    // Released ends: hollow circle for a moment hinge, hollow square for axial/shear releases
+    const releaseMarkers = [];
+    const length = Math.sqrt(dx * dx + dy * dy) || 1;
+    const ux = dx / length;
+    const uy = dy / length;
+    for (const [end, release] of [['start', member.releases?.start], ['end', member.releases?.end]] as const) {
+      if (!release || member.type === 'truss') continue;
+      const sign = end === 'start' ? 1 : -1;
+      const base = end === 'start' ? p1 : p2;
+      const cx = base.x + sign * ux * 10;
+      const cy = base.y + sign * uy * 10;
+      if (release.moment) {
+        releaseMarkers.push(<circle key={`hinge-${end}`} cx={cx} cy={cy} r="4" fill="#0f172a" stroke={color} strokeWidth="1.5" />);
+      }
+      if (release.axial || release.shear) {
+        const sx = cx + sign * ux * 9;
+        const sy = cy + sign * uy * 9;
+        releaseMarkers.push(<rect key={`slide-${end}`} x={sx - 3} y={sy - 3} width="6" height="6" fill="#0f172a" stroke={color} strokeWidth="1.5" />);
+      }
+    }
+
+    // Rigid end zones: a wide pale band from the node to the face
+    const rigidZones = member.type === 'truss' ? [] : ([[member.offsets?.start, start, 1], [member.offsets?.end, end, -1]] as const).flatMap(([o, node, sign]) => {
+      const v = offsetVector(o, end.x - start.x, end.y - start.y, sign);
+      if (!v) return [];
+      const from = toScreen(node.x, node.y);
+      const face = toScreen(node.x + v.x, node.y + v.y);
+      return [<line key={`rigid-${sign}`} x1={from.x} y1={from.y} x2={face.x} y2={face.y} stroke="#cbd5e1" strokeOpacity="0.5" strokeWidth="9" strokeLinecap="butt" />];
+    });
+
     return (
-      <g key={member.id}>
+      <g key={member.id} opacity={slack ? 0.3 : 1}>
+        {rigidZones}
         <line x1={p1.x} y1={p1.y} x2={p2.x} y2={p2.y} stroke={color} strokeWidth="4" strokeLinecap="round" strokeDasharray={member.type === 'truss' ? '4' : '0'} />
-        <text x={labelX} y={labelY} fill="#94a3b8" fontSize="10" textAnchor={isVertical ? "start" : "middle"}>{member.id}</text>
+        {releaseMarkers}
+        <text x={labelX} y={labelY} fill="#94a3b8" fontSize="10" textAnchor={isVertical ? "start" : "middle"}>{member.id}{behaviorTag}{slack ? ' slack' : ''}</text>
       </g>
     );
   };
@@ -218,51 +293,50 @@ const StructureCanvas: React.FC<StructureCanvasProps> = ({ model, analysisResult
     const arrowLen = 25;
     const arrowColor = "#f472b6";
     const momentColor = "#f59e0b";
+    // Screen directions of the load's x and y components (screen y points down)
+    const isLocal = (load.direction || 'local') === 'local';
+    const ux = isLocal ? { x: dx / len, y: dy / len } : { x: 1, y: 0 };
+    const uy = isLocal ? { x: dy / len, y: -dx / len } : { x: 0, y: -1 };
 
     if (load.type === LoadType.MEMBER_DISTRIBUTED) {
-      const count = Math.max(3, Math.floor(len / 30));
-      const arrows = [];
-      if (Math.abs(load.magnitudeX) > 0.001) {
-        const angle = load.magnitudeX > 0 ? 0 : Math.PI;
-        const cosA = Math.cos(angle);
-        const sinA = Math.sin(angle);
+      // Loaded length as fractions of the member, from the start/end offsets
+      const realLen = Math.sqrt((end.x - start.x) ** 2 + (end.y - start.y) ** 2) || 1;
+      const t1 = Math.min(1, Math.max(0, (load.startOffset || 0) / realLen));
+      const t2 = Math.max(t1, 1 - (load.endOffset || 0) / realLen);
+      const q1 = { x: p1.x + dx * t1, y: p1.y + dy * t1 };
+      const q2 = { x: p1.x + dx * t2, y: p1.y + dy * t2 };
+      const count = Math.max(3, Math.floor(len * (t2 - t1) / 30));
+      const arrows: React.ReactNode[] = [];
+      // Arrow lengths follow the intensity, which varies linearly along the loaded length
+      const drawComponent = (key: string, u: { x: number; y: number }, w1: number, w2: number) => {
+        const wMax = Math.max(Math.abs(w1), Math.abs(w2));
+        if (wMax <= 0.001) return;
+        const tails = [];
         for (let i = 0; i <= count; i++) {
-          const t = i / count;
+          const t = t1 + (t2 - t1) * i / count;
+          const w = w1 + (w2 - w1) * i / count;
           const x = p1.x + dx * t;
           const y = p1.y + dy * t;
-          const tailX = x - cosA * arrowLen;
-          const tailY = y - sinA * arrowLen;
-          arrows.push(<line key={`udlx-${i}`} x1={tailX} y1={tailY} x2={x} y2={y} stroke={arrowColor} strokeWidth="1" markerEnd="url(#arrowhead-pink)" />);
+          const tailX = x - u.x * w / wMax * arrowLen;
+          const tailY = y - u.y * w / wMax * arrowLen;
+          tails.push(`${tailX},${tailY}`);
+          if (Math.abs(w) > 0.001) {
+            arrows.push(<line key={`${key}-${i}`} x1={tailX} y1={tailY} x2={x} y2={y} stroke={arrowColor} strokeWidth="1" markerEnd="url(#arrowhead-pink)" />);
+          }
         }
-        // Add connecting bar for X UDL
-        arrows.push(
-          <line
-            key={`udlx-bar`}
-            x1={p1.x - cosA * arrowLen} y1={p1.y - sinA * arrowLen}
-            x2={p2.x - cosA * arrowLen} y2={p2.y - sinA * arrowLen}
-            stroke={arrowColor} strokeWidth="1"
-          />
-        );
-      }
-      if (Math.abs(load.magnitudeY) > 0.001) {
-        const isUp = load.magnitudeY > 0;
-        const dyArrow = isUp ? -arrowLen : arrowLen;
-        for (let i = 0; i <= count; i++) {
-          const t = i / count;
-          const x = p1.x + dx * t;
-          const y = p1.y + dy * t;
-          arrows.push(<line key={`udly-${i}`} x1={x} y1={y - dyArrow} x2={x} y2={y} stroke={arrowColor} strokeWidth="1" markerEnd="url(#arrowhead-pink)" />);
+        // Connecting bar along the arrow tails
+        arrows.push(<polyline key={`${key}-bar`} points={tails.join(' ')} fill="none" stroke={arrowColor} strokeWidth="1" />);
+        if (w1 !== w2) {
+          const label = (q: { x: number; y: number }, w: number, end: string) => {
+            const offset = (w / wMax) * arrowLen + Math.sign(w) * 8;
+            arrows.push(<text key={`${key}-${end}`} x={q.x - u.x * offset} y={q.y - u.y * offset + 3} fill={arrowColor} fontSize="10" textAnchor="middle">{Math.abs(w).toFixed(1)}</text>);
+          };
+          label(q1, w1, 'w1');
+          label(q2, w2, 'w2');
         }
-        // Add connecting bar for Y UDL
-        arrows.push(
-          <line
-            key={`udly-bar`}
-            x1={p1.x} y1={p1.y - dyArrow}
-            x2={p2.x} y2={p2.y - dyArrow}
-            stroke={arrowColor} strokeWidth="1"
-          />
-        );
-      }
+      };
+      drawComponent('udlx', ux, load.magnitudeX, load.endMagnitudeX ?? load.magnitudeX);
+      drawComponent('udly', uy, load.magnitudeY, load.endMagnitudeY ?? load.magnitudeY);
       return <g key={load.id}>{arrows}</g>;
     } else if (load.type === LoadType.MEMBER_POINT) {
       const realLen = Math.sqrt((end.x - start.x) ** 2 + (end.y - start.y) ** 2);
@@ -271,16 +345,14 @@ const StructureCanvas: React.FC<StructureCanvasProps> = ({ model, analysisResult
       const x = p1.x + dx * ratio;
       const y = p1.y + dy * ratio;
       const elements = [];
-      if (Math.abs(load.magnitudeX) > 0.001) {
-        const isRight = load.magnitudeX > 0;
-        const tailX = isRight ? x - 30 : x + 30;
-        elements.push(<g key="px"><line x1={tailX} y1={y} x2={x} y2={y} stroke={arrowColor} strokeWidth="2" markerEnd="url(#arrowhead-pink)" /><text x={tailX + (isRight ? -5 : 5)} y={y - 5} fill={arrowColor} fontSize="10" textAnchor={isRight ? "end" : "start"}>{Math.abs(load.magnitudeX).toFixed(1)}</text></g>);
-      }
-      if (Math.abs(load.magnitudeY) > 0.001) {
-        const isUp = load.magnitudeY > 0;
-        const tailY = isUp ? y + 30 : y - 30;
-        elements.push(<g key="py"><line x1={x} y1={tailY} x2={x} y2={y} stroke={arrowColor} strokeWidth="2" markerEnd="url(#arrowhead-pink)" /><text x={x + 5} y={tailY} fill={arrowColor} fontSize="10" textAnchor="start">{Math.abs(load.magnitudeY).toFixed(1)}</text></g>);
-      }
+      const drawComponent = (key: string, u: { x: number; y: number }, P: number) => {
+        if (Math.abs(P) <= 0.001) return;
+        const tailX = x - u.x * Math.sign(P) * 30;
+        const tailY = y - u.y * Math.sign(P) * 30;
+        elements.push(<g key={key}><line x1={tailX} y1={tailY} x2={x} y2={y} stroke={arrowColor} strokeWidth="2" markerEnd="url(#arrowhead-pink)" /><text x={tailX - u.x * Math.sign(P) * 8} y={tailY - u.y * Math.sign(P) * 8 + 3} fill={arrowColor} fontSize="10" textAnchor="middle">{Math.abs(P).toFixed(1)}</text></g>);
+      };
+      drawComponent('px', ux, load.magnitudeX);
+      drawComponent('py', uy, load.magnitudeY);
       if (Math.abs(load.moment || 0) > 0.001) {
         const isCCW = (load.moment || 0) > 0;
         const d = isCCW ? "M 15 0 A 15 15 0 1 0 0 -15" : "M 15 0 A 15 15 0 1 1 0 -15";
@@ -297,9 +369,9 @@ const StructureCanvas: React.FC<StructureCanvasProps> = ({ model, analysisResult
   };
 
   const renderReactions = () => {
-    if (!analysisResults) return null;
+    if (!shownResults) return null;
     const elements = [];
-    for (const [nodeId, rxn] of Object.entries(analysisResults.reactions)) {
+    for (const [nodeId, rxn] of Object.entries(shownResults.reactions)) {
       if (Math.abs(rxn.fx) < 0.001 && Math.abs(rxn.fy) < 0.001 && Math.abs(rxn.moment) < 0.001) continue;
       const node = model.nodes.find(n => n.id === nodeId);
       if (!node) continue;
@@ -326,6 +398,63 @@ const StructureCanvas: React.FC<StructureCanvasProps> = ({ model, analysisResult
     return elements;
   };
 
+  const mechanismModes = analysisResults && !analysisResults.isStable ? analysisResults.instability?.mechanismModes ?? [] : [];
+  const mechanism = mechanismModes[mechanismIndex];
+
+  // Mode shapes that can be drawn, grouped by analysis
+  const modeGroups = analysisResults?.isStable ? [
+    {
+      kind: 'buckling' as const,
+      title: 'Buckling',
+      modes: (analysisResults.buckling?.modes ?? []).map((mode, i) => ({ label: `λ${i + 1} = ${mode.loadFactor.toPrecision(4)}`, shape: mode.shape }))
+    },
+    {
+      kind: 'modal' as const,
+      title: 'Vibration',
+      modes: (analysisResults.modal?.modes ?? []).map((mode, i) => ({ label: `f${i + 1} = ${mode.frequency.toPrecision(4)} Hz`, shape: mode.shape }))
+    }
+  ].filter(group => group.modes.length > 0) : [];
+  const modeShape = shownMode ? modeGroups.find(g => g.kind === shownMode.kind)?.modes[shownMode.index]?.shape : undefined;
+
+  // Time-history frame on the same scale for the whole record: the largest translation reached is drawn as 40px
+  const timeHistory = analysisResults?.isStable ? analysisResults.timeHistory : undefined;
+  const frameShape = (() => {
+    if (!timeHistory || frameIndex === 0) return undefined;
+    let peak = 0;
+    (['max', 'min'] as const).forEach(bound => Object.values(timeHistory.peak[bound].displacements).forEach(d => {
+      peak = Math.max(peak, Math.abs(d.x), Math.abs(d.y));
+    }));
+    if (peak === 0) return undefined;
+    const frame = timeHistory.frames[frameIndex].displacements;
+    return Object.fromEntries(Object.entries(frame).map(([id, d]) => [id, { x: d.x / peak, y: d.y / peak, rotation: d.rotation / peak }]));
+  })();
+
+  // Draws a normalized mode (mechanism, buckling) as a dashed deflected shape; the largest movement is 40px on screen
+  const renderModeShape = (key: string, shape: { [nodeId: string]: NodalDisplacement }, color: string, markedNodes: string[] = []) => {
+    const amplitude = 40 / scale;
+    const displaced = (nodeId: string) => {
+      const node = model.nodes.find(n => n.id === nodeId);
+      if (!node) return null;
+      const d = shape[nodeId] || { x: 0, y: 0, rotation: 0 };
+      return toScreen(node.x + d.x * amplitude, node.y + d.y * amplitude);
+    };
+    return (
+      <g>
+        {model.members.map(m => {
+          const p1 = displaced(m.startNodeId);
+          const p2 = displaced(m.endNodeId);
+          if (!p1 || !p2) return null;
+          return <line key={`${key}-${m.id}`} x1={p1.x} y1={p1.y} x2={p2.x} y2={p2.y} stroke={color} strokeWidth="2" strokeDasharray="6 4" />;
+        })}
+        {markedNodes.map(nodeId => {
+          const p = displaced(nodeId);
+          if (!p) return null;
+          return <circle key={`${key}-n-${nodeId}`} cx={p.x} cy={p.y} r="4" fill="none" stroke={color} strokeWidth="1.5" />;
+        })}
+      </g>
+    );
+  };
+
   return (
     <div className="flex-1 flex flex-col min-w-0 h-full w-full bg-[#0f172a] overflow-hidden">
       <div
@@ -365,6 +494,56 @@ const StructureCanvas: React.FC<StructureCanvasProps> = ({ model, analysisResult
           </div>
         )}
 
+        {analysisResults && !analysisResults.isStable && (
+          <div className="absolute top-4 left-4 right-4 md:right-auto md:max-w-md bg-red-950/90 border border-red-700 px-3 py-2 rounded-lg shadow-lg z-10 backdrop-blur-sm pointer-events-auto">
+            <div className="flex items-center gap-2 text-red-300 text-xs font-bold uppercase tracking-wider">
+              <AlertTriangle size={14} /> Unstable Structure
+            </div>
+            <p className="text-[11px] text-red-100 mt-1 leading-relaxed">{analysisResults.message}</p>
+            {mechanismModes.length > 1 && (
+              <button
+                onClick={() => setMechanismIndex(i => (i + 1) % mechanismModes.length)}
+                className="mt-2 text-[10px] font-bold uppercase text-red-300 hover:text-white"
+              >
+                Mechanism {mechanismIndex + 1} of {mechanismModes.length} — next
+              </button>
+            )}
+          </div>
+        )}
+
+        {modeGroups.length > 0 && (
+          <div className="absolute top-4 left-4 max-w-[70%] bg-slate-900/90 border border-amber-700 px-3 py-2 rounded-lg shadow-lg z-10 backdrop-blur-sm pointer-events-auto space-y-1">
+            {modeGroups.map(group => (
+              <div key={group.kind}>
+                <div className="text-amber-300 text-[10px] font-bold uppercase tracking-wider">{group.title}</div>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {group.modes.map((mode, i) => {
+                    const active = shownMode?.kind === group.kind && shownMode.index === i;
+                    return (
+                      <button
+                        key={i}
+                        onClick={() => setShownMode(active ? null : { kind: group.kind, index: i })}
+                        className={`px-1.5 py-0.5 rounded border text-[10px] font-mono ${active ? 'border-amber-400 text-amber-300 bg-amber-900/40' : 'border-slate-600 text-slate-300 hover:text-white'}`}
+                        title="Show or hide this mode shape"
+                      >
+                        {mode.label}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {analysisResults?.isStable && analysisResults.movingLoad && (
+          <InfluenceLinePanel movingLoad={analysisResults.movingLoad} />
+        )}
+
+        {timeHistory && (
+          <TimeHistoryPanel model={model} history={timeHistory} frameIndex={frameIndex} onFrameChange={setFrameIndex} />
+        )}
+
         <svg className="absolute inset-0 w-full h-full pointer-events-none">
           <defs>
             <marker id="arrowhead" markerWidth="6" markerHeight="4" refX="5" refY="2" orient="auto"><polygon points="0 0, 6 2, 0 4" fill="#ef4444" /></marker>
@@ -373,20 +552,63 @@ const StructureCanvas: React.FC<StructureCanvasProps> = ({ model, analysisResult
           </defs>
           <g>
             {model.members.map(m => renderMember(m))}
+            {(model.constraints ?? []).map(c => {
+              const master = model.nodes.find(n => n.id === c.masterNodeId);
+              if (!master) return null;
+              const p1 = toScreen(master.x, master.y);
+              return (
+                <g key={c.id}>
+                  {c.slaveNodeIds.map(slaveId => {
+                    const slave = model.nodes.find(n => n.id === slaveId);
+                    if (!slave) return null;
+                    const p2 = toScreen(slave.x, slave.y);
+                    return <line key={slaveId} x1={p1.x} y1={p1.y} x2={p2.x} y2={p2.y} stroke="#2dd4bf" strokeWidth="1.5" strokeDasharray={c.type === 'rigid_link' ? '8 3' : '2 3'} />;
+                  })}
+                  <rect x={p1.x - 8} y={p1.y - 8} width="16" height="16" fill="none" stroke="#2dd4bf" strokeWidth="1.5" />
+                </g>
+              );
+            })}
             {model.supports.map(support => {
               const node = model.nodes.find(n => n.id === support.nodeId);
               if (!node) return null;
               const p = toScreen(node.x, node.y);
               return (
-                <g key={support.id} transform={`translate(${p.x}, ${p.y})`}>
+                <g key={support.id} transform={`translate(${p.x}, ${p.y}) rotate(${-(support.angle || 0)})`}>
                   {support.type === SupportType.PIN && <path d="M 0 0 L -8 14 L 8 14 Z" fill="#475569" stroke="#94a3b8" strokeWidth="2" />}
                   {support.type === SupportType.ROLLER && <g><path d="M 0 0 L -8 12 L 8 12 Z" fill="#475569" stroke="#94a3b8" strokeWidth="2" /><circle cx="-5" cy="16" r="3" fill="#94a3b8" /><circle cx="5" cy="16" r="3" fill="#94a3b8" /></g>}
                   {support.type === SupportType.FIXED && <g><rect x="-10" y="4" width="20" height="4" fill="#94a3b8" /><line x1="-8" y1="8" x2="-12" y2="16" stroke="#64748b" strokeWidth="1" /><line x1="8" y1="8" x2="4" y2="16" stroke="#64748b" strokeWidth="1" /></g>}
+                  {(support.kx || support.ky || support.kTheta) ? <g><path d="M 0 20 L 4 23 L -4 27 L 4 31 L -4 35 L 0 38" fill="none" stroke="#a3e635" strokeWidth="1.5" /><text x="7" y="34" fill="#a3e635" fontSize="9">k</text></g> : null}
                 </g>
               );
             })}
             {renderReactions()}
-            {model.loads.filter(l => l.type !== LoadType.NODAL_POINT).map(renderMemberLoad)}
+            {mechanism && renderModeShape('mech', mechanism.shape, '#f87171', mechanism.involvedNodes)}
+            {modeShape && renderModeShape('mode', modeShape, '#fbbf24')}
+            {frameShape && renderModeShape('frame', frameShape, '#22d3ee')}
+            {model.loads.filter(l => l.type === LoadType.MEMBER_POINT || l.type === LoadType.MEMBER_DISTRIBUTED).map(renderMemberLoad)}
+            {model.loads.filter(l => l.type === LoadType.MEMBER_THERMAL).map(load => {
+              const member = model.members.find(m => m.id === load.memberId);
+              const start = member && model.nodes.find(n => n.id === member.startNodeId);
+              const end = member && model.nodes.find(n => n.id === member.endNodeId);
+              if (!start || !end) return null;
+              const p = toScreen((start.x + end.x) / 2, (start.y + end.y) / 2);
+              const label = `ΔT=${load.deltaT ?? 0}` + (load.temperatureGradient ? ` ∇T=${load.temperatureGradient}` : '');
+              return <text key={load.id} x={p.x} y={p.y + 16} fill="#fb923c" fontSize="9" textAnchor="middle" fontWeight="bold">{label}</text>;
+            })}
+            {model.loads.filter(l => l.type === LoadType.SUPPORT_DISPLACEMENT).map(load => {
+              const node = model.nodes.find(n => n.id === load.nodeId);
+              if (!node) return null;
+              const p = toScreen(node.x, node.y);
+              const parts = [];
+              if (Math.abs(load.magnitudeX) > 0) parts.push(`Δx=${load.magnitudeX}`);
+              if (Math.abs(load.magnitudeY) > 0) parts.push(`Δy=${load.magnitudeY}`);
+              if (Math.abs(load.moment || 0) > 0) parts.push(`θ=${load.moment}`);
+              return (
+                <text key={load.id} x={p.x - 12} y={p.y + 12} fill="#c084fc" fontSize="9" textAnchor="end" fontWeight="bold">
+                  {parts.join(' ')}
+                </text>
+              );
+            })}
             {model.nodes.map(node => {
               const p = toScreen(node.x, node.y);
               return (
@@ -444,6 +666,66 @@ const StructureCanvas: React.FC<StructureCanvasProps> = ({ model, analysisResult
         <div className="h-32 md:h-40 bg-slate-900 border-t border-slate-700 flex flex-col flex-shrink-0 z-10 overflow-hidden">
           <div className="px-4 py-1.5 bg-slate-800 border-b border-slate-700 flex justify-between items-center shrink-0">
             <span className="text-[10px] md:text-xs font-bold text-slate-400 uppercase tracking-widest">Nodal Displacements</span>
+            {analysisResults.pDelta && (
+              <span
+                className="text-[10px] md:text-xs font-mono text-amber-400"
+                title="Second- to first-order amplification of displacements and moments (all loads)"
+              >
+                P-Δ ×{analysisResults.pDelta.displacementAmplification.toFixed(3)} / M ×{analysisResults.pDelta.momentAmplification.toFixed(3)}
+              </span>
+            )}
+            {analysisResults.activeSet && (
+              <span
+                className="text-[10px] md:text-xs font-mono text-amber-400"
+                title="Tension/compression-only members that went slack under all loads"
+              >
+                Slack: {analysisResults.activeSet.slackMembers.join(', ') || 'none'}
+              </span>
+            )}
+            {analysisResults.equilibrium && (
+              <span
+                className={`text-[10px] md:text-xs font-mono ${analysisResults.equilibrium.warnings.length > 0 ? 'text-red-400' : 'text-emerald-400'}`}
+                title={analysisResults.equilibrium.warnings.join('\n') || `Loads, reactions and nodal forces balance (residual ${analysisResults.equilibrium.relativeResidual.toExponential(1)})`}
+              >
+                {analysisResults.equilibrium.warnings.length > 0 ? `Equilibrium ⚠ ${analysisResults.equilibrium.warnings.length}` : 'Equilibrium ✓'}
+              </span>
+            )}
+            {analysisResults.conditioning && (
+              <span
+                className={`text-[10px] md:text-xs font-mono ${analysisResults.conditioning.warnings.length > 0 ? 'text-red-400' : 'text-slate-400'}`}
+                title={analysisResults.conditioning.warnings.join('\n') || `Largest / smallest diagonal stiffness ${analysisResults.conditioning.diagonalRatio.toExponential(1)}`}
+              >
+                κ ≈ {analysisResults.conditioning.conditionEstimate.toExponential(1)}
+              </span>
+            )}
+            {analysisResults.responseSpectrum && (
+              <span
+                className="text-[10px] md:text-xs font-mono text-cyan-400"
+                title={`Response spectrum base shear along ${analysisResults.responseSpectrum.direction.toUpperCase()} (${analysisResults.responseSpectrum.combination.toUpperCase()})`}
+              >
+                RS V = {analysisResults.responseSpectrum.baseShear.toPrecision(4)}
+              </span>
+            )}
+            {(analysisResults.loadCases || analysisResults.pDelta || analysisResults.timeHistory || analysisResults.responseSpectrum || analysisResults.movingLoad) && (
+              <select
+                value={resultKey}
+                onChange={e => setResultKey(e.target.value)}
+                className="bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-[10px] md:text-xs text-slate-300 outline-none focus:border-cyan-500"
+              >
+                <option value="all">All loads</option>
+                {analysisResults.pDelta && <option value="first">All loads (first order)</option>}
+                {(model.loadCases ?? []).filter(c => analysisResults.loadCases?.[c.id]).map(c => <option key={c.id} value={`case:${c.id}`}>Case: {c.name}</option>)}
+                {(model.combinations ?? []).filter(c => analysisResults.combinations?.[c.id]).map(c => <option key={c.id} value={`combo:${c.id}`}>Combo: {c.name}</option>)}
+                {analysisResults.envelope && <option value="max">Envelope max</option>}
+                {analysisResults.envelope && <option value="min">Envelope min</option>}
+                {analysisResults.timeHistory && <option value="frame">Time history at t = {analysisResults.timeHistory.time[frameIndex].toFixed(3)} s</option>}
+                {analysisResults.timeHistory && <option value="peak:max">Time history peak max</option>}
+                {analysisResults.timeHistory && <option value="peak:min">Time history peak min</option>}
+                {analysisResults.responseSpectrum && <option value="spectrum">Response spectrum ({analysisResults.responseSpectrum.combination.toUpperCase()})</option>}
+                {analysisResults.movingLoad && <option value="moving:max">Moving load max</option>}
+                {analysisResults.movingLoad && <option value="moving:min">Moving load min</option>}
+              </select>
+            )}
           </div>
           <div className="flex-1 overflow-auto bg-slate-950/20">
             <table className="w-full text-left border-collapse text-[10px] md:text-xs">
@@ -456,7 +738,7 @@ const StructureCanvas: React.FC<StructureCanvasProps> = ({ model, analysisResult
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-800/50 text-slate-300 font-mono">
-                {Object.entries(analysisResults.displacements).map(([nodeId, disp]) => (
+                {Object.entries(shownResults?.displacements ?? {}).map(([nodeId, disp]) => (
                   <tr key={nodeId} className="hover:bg-slate-800/30">
                     <td className="p-2 pl-4 text-cyan-400 font-bold">{nodeId}</td>
                     <td className="p-2">{disp.x.toExponential(3)}</td>
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { Play, Pause } from 'lucide-react';
+import { StructureModel, TimeHistoryResults, ResultSet, NodalDisplacement, ForceVector } from '../frame/types';
+
+interface TimeHistoryPanelProps {
+  model: StructureModel;
+  history: TimeHistoryResults;
+  frameIndex: number;
+  onFrameChange: (index: number) => void;
+}
+
+// Playback speed in recorded frames per second
+const FRAMES_PER_SECOND = 30;
+
+// Plotted quantity: 'd:<node>:<x|y|rotation>', 'r:<node>:<fx|fy|moment>' or 'f:<member>:<start|end>:<fx|fy|moment>'
+const seriesValue = (frame: ResultSet, key: string): number => {
+  const [kind, id, a, b] = key.split(':');
+  if (kind === 'd') return frame.displacements[id]?.[a as keyof NodalDisplacement] ?? 0;
+  if (kind === 'r') return frame.reactions[id]?.[a as keyof ForceVector] ?? 0;
+  return frame.memberForces[id]?.[a as 'start' | 'end']?.[b as keyof ForceVector] ?? 0;
+};
+
+// Node translation that moves the most, so the plot opens on something meaningful
+const largestTranslation = (history: TimeHistoryResults) => {
+  let best = '';
+  let largest = -1;
+  for (const id in history.peak.max.displacements) {
+    (['x', 'y'] as const).forEach(dof => {
+      const peak = Math.max(Math.abs(history.peak.max.displacements[id][dof]), Math.abs(history.peak.min.displacements[id][dof]));
+      if (peak > largest) {
+        largest = peak;
+        best = `d:${id}:${dof}`;
+      }
+    });
+  }
+  return best;
+};
+
+const TimeHistoryPanel: React.FC<TimeHistoryPanelProps> = ({ model, history, frameIndex, onFrameChange }) => {
+  const [playing, setPlaying] = useState(false);
+  const [series, setSeries] = useState(() => largestTranslation(history));
+  const last = history.frames.length - 1;
+
+  useEffect(() => {
+    setPlaying(false);
+    setSeries(largestTranslation(history));
+  }, [history]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (frameIndex >= last) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => onFrameChange(frameIndex + 1), 1000 / FRAMES_PER_SECOND);
+    return () => clearTimeout(timer);
+  }, [playing, frameIndex, last]);
+
+  const options: [string, string][] = [
+    ...model.nodes.flatMap(n => ([['x', 'dx'], ['y', 'dy'], ['rotation', 'θ']] as const)
+      .map(([dof, label]): [string, string] => [`d:${n.id}:${dof}`, `${n.id} ${label}`])),
+    ...Object.keys(history.frames[0].reactions).flatMap(id => ([['fx', 'Rx'], ['fy', 'Ry'], ['moment', 'Rm']] as const)
+      .map(([c, label]): [string, string] => [`r:${id}:${c}`, `${id} ${label}`])),
+    ...model.members.flatMap(m => (['start', 'end'] as const).flatMap(end => ([['fx', 'N'], ['fy', 'V'], ['moment', 'M']] as const)
+      .map(([c, label]): [string, string] => [`f:${m.id}:${end}:${c}`, `${m.id} ${label}${end === 'start' ? 'i' : 'j'}`])))
+  ];
+
+  const values = history.frames.map(frame => seriesValue(frame, series));
+  const top = Math.max(0, ...values);
+  const bottom = Math.min(0, ...values);
+  const span = top - bottom || 1;
+  const duration = history.time[last] || 1;
+  const toPlot = (t: number, v: number) => `${(t / duration * 300).toFixed(1)},${((top - v) / span * 80).toFixed(1)}`;
+
+  return (
+    <div
+      className="absolute bottom-4 left-1/2 -translate-x-1/2 w-[90%] max-w-md bg-slate-900/90 border border-cyan-700 px-3 py-2 rounded-lg shadow-lg z-10 backdrop-blur-sm pointer-events-auto space-y-1"
+      onMouseDown={e => e.stopPropagation()}
+      onTouchStart={e => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-cyan-300 text-[10px] font-bold uppercase tracking-wider">Time History</span>
+        <span className="text-[10px] font-mono text-slate-300">
+          t = {history.time[frameIndex].toFixed(3)} s · {values[frameIndex].toExponential(3)}
+        </span>
+        <select
+          value={series}
+          onChange={e => setSeries(e.target.value)}
+          className="bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-slate-300 outline-none focus:border-cyan-500"
+        >
+          {options.map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+        </select>
+      </div>
+      <svg viewBox="0 0 300 80" preserveAspectRatio="none" className="w-full h-16 bg-slate-950/40 rounded">
+        <line x1="0" x2="300" y1={top / span * 80} y2={top / span * 80} stroke="#475569" strokeWidth="0.5" />
+        <polyline points={values.map((v, i) => toPlot(history.time[i], v)).join(' ')} fill="none" stroke="#22d3ee" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+        <line x1={history.time[frameIndex] / duration * 300} x2={history.time[frameIndex] / duration * 300} y1="0" y2="80" stroke="#fbbf24" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-[9px] font-mono text-slate-500">
+        <span>min {Math.min(...values).toExponential(3)}</span>
+        <span>max {Math.max(...values).toExponential(3)}</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => {
+            if (!playing && frameIndex >= last) onFrameChange(0);
+            setPlaying(p => !p);
+          }}
+          className="p-1 rounded border border-slate-600 text-slate-300 hover:text-white"
+          title={playing ? 'Pause' : 'Play'}
+        >
+          {playing ? <Pause size={14} /> : <Play size={14} />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={last}
+          value={frameIndex}
+          onChange={e => {
+            setPlaying(false);
+            onFrameChange(Number(e.target.value));
+          }}
+          className="flex-1 accent-cyan-500"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TimeHistoryPanel;
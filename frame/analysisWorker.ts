@@ -0,0 +1,9 @@
+import { analyzeStructure } from './solver';
+import { StructureModel } from './types';
+
+// Runs analyzeStructure off the main thread (see services/analysisRunner.ts)
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<StructureModel>) => {
+    ctx.postMessage(analyzeStructure(event.data));
+};
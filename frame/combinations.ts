@@ -0,0 +1,73 @@
+import { LoadCase, LoadCaseCategory, LoadCombination } from './types';
+
+// --- Code load combination presets ---
+
+// One term of a combination: alternatives such as (Lr or S or R) each give a separate combination
+interface CombinationTerm {
+    options: [LoadCaseCategory, number][];
+    // A required term must match a load case, otherwise the combination is skipped;
+    // an optional term is dropped when no case matches
+    required?: boolean;
+}
+
+const SYMBOLS: { [category in LoadCaseCategory]: string } = {
+    dead: 'D',
+    live: 'L',
+    roof_live: 'Lr',
+    snow: 'S',
+    rain: 'R',
+    wind: 'W',
+    earthquake: 'E',
+    other: 'O'
+};
+
+const ROOF: [LoadCaseCategory, number][] = [['roof_live', 1], ['snow', 1], ['rain', 1]];
+const scaled = (options: [LoadCaseCategory, number][], factor: number) =>
+    options.map(([category, f]) => [category, f * factor] as [LoadCaseCategory, number]);
+
+// ASCE 7-16 §2.3.1 strength design (LRFD) combinations
+const ASCE7_LRFD: CombinationTerm[][] = [
+    [{ options: [['dead', 1.4]], required: true }],
+    [{ options: [['dead', 1.2]] }, { options: [['live', 1.6]], required: true }, { options: scaled(ROOF, 0.5) }],
+    [{ options: [['dead', 1.2]] }, { options: scaled(ROOF, 1.6), required: true }, { options: [['live', 1], ['wind', 0.5]] }],
+    [{ options: [['dead', 1.2]] }, { options: [['wind', 1]], required: true }, { options: [['live', 1]] }, { options: scaled(ROOF, 0.5) }],
+    [{ options: [['dead', 0.9]] }, { options: [['wind', 1]], required: true }],
+    [{ options: [['dead', 1.2]] }, { options: [['earthquake', 1]], required: true }, { options: [['live', 1]] }, { options: [['snow', 0.2]] }],
+    [{ options: [['dead', 0.9]] }, { options: [['earthquake', 1]], required: true }]
+];
+
+/**
+ * Expands the ASCE 7 LRFD combinations for the categories present in `loadCases`.
+ * Every case of a category takes that category's factor; duplicates are dropped.
+ */
+export const asce7LrfdCombinations = (loadCases: LoadCase[]): LoadCombination[] => {
+    const present = new Set(loadCases.map(c => c.category ?? 'other'));
+    const combinations: LoadCombination[] = [];
+    const names = new Set<string>();
+
+    ASCE7_LRFD.forEach(terms => {
+        let variants: [LoadCaseCategory, number][][] = [[]];
+        for (const term of terms) {
+            const available = term.options.filter(([category]) => present.has(category));
+            if (available.length === 0) {
+                if (term.required) return;
+                continue;
+            }
+            variants = variants.flatMap(v => available.map(option => [...v, option]));
+        }
+
+        variants.forEach(variant => {
+            const name = variant.map(([category, f]) => `${f === 1 ? '' : +f.toFixed(2)}${SYMBOLS[category]}`).join(' + ');
+            if (names.has(name)) return;
+            names.add(name);
+
+            const factors: { [loadCaseId: string]: number } = {};
+            variant.forEach(([category, f]) => {
+                loadCases.filter(c => (c.category ?? 'other') === category).forEach(c => { factors[c.id] = f; });
+            });
+            combinations.push({ id: `lrfd${combinations.length + 1}`, name, factors });
+        });
+    });
+
+    return combinations;
+};
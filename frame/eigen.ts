@@ -0,0 +1,145 @@
+// --- Generalized symmetric eigenproblems (buckling, vibration) ---
+
+// Subspace iteration stops once every requested eigenvalue changes by less than this fraction
+export const EIGEN_TOLERANCE = 1e-8;
+const MAX_SUBSPACE_ITERATIONS = 100;
+
+/**
+ * Cyclic Jacobi rotations on a small dense symmetric matrix.
+ * Returns the eigenvalues and the eigenvectors as the columns of `vectors`.
+ */
+export function jacobiEigen(A: number[][]): { values: number[]; vectors: number[][] } {
+    const n = A.length;
+    const a = A.map(row => [...row]);
+    const v = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j): number => (i === j ? 1 : 0)));
+
+    for (let sweep = 0; sweep < 50; sweep++) {
+        let off = 0;
+        let diag = 0;
+        for (let i = 0; i < n; i++) {
+            diag += a[i][i] ** 2;
+            for (let j = i + 1; j < n; j++) off += a[i][j] ** 2;
+        }
+        if (off <= 1e-30 * diag || off === 0) break;
+
+        for (let p = 0; p < n; p++) {
+            for (let q = p + 1; q < n; q++) {
+                if (a[p][q] === 0) continue;
+                // Rotation angle that annihilates a_pq
+                const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+                const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta ** 2 + 1));
+                const c = 1 / Math.sqrt(t ** 2 + 1);
+                const s = t * c;
+
+                for (let k = 0; k < n; k++) {
+                    const akp = a[k][p], akq = a[k][q];
+                    a[k][p] = c * akp - s * akq;
+                    a[k][q] = s * akp + c * akq;
+                }
+                for (let k = 0; k < n; k++) {
+                    const apk = a[p][k], aqk = a[q][k];
+                    a[p][k] = c * apk - s * aqk;
+                    a[q][k] = s * apk + c * aqk;
+                }
+                for (let k = 0; k < n; k++) {
+                    const vkp = v[k][p], vkq = v[k][q];
+                    v[k][p] = c * vkp - s * vkq;
+                    v[k][q] = s * vkp + c * vkq;
+                }
+            }
+        }
+    }
+
+    return { values: a.map((row, i) => row[i]), vectors: v };
+}
+
+export interface SubspaceProblem {
+    n: number;
+    // x = A⁻¹ b with A symmetric positive definite (its factorization)
+    solveA: (b: Float64Array) => Float64Array;
+    multiplyB: (x: Float64Array) => Float64Array;
+    // Eigenvalues at or below this are round-off of a (nearly) empty B, not modes
+    minimum?: number;
+}
+
+/**
+ * Subspace iteration for the `count` largest positive eigenvalues μ of B φ = μ A φ.
+ * Vibration (A = K, B = M) and buckling (A = K, B = −K_g) both map onto this form
+ * with μ = 1/ω² and μ = 1/λ. The eigenvectors come back A-orthonormal; a basis vector
+ * that B maps to nothing (e.g. a massless DOF) drops out of the subspace.
+ */
+export function subspaceIteration({ n, solveA, multiplyB, minimum = 0 }: SubspaceProblem, count: number) {
+    const q = Math.min(n, Math.max(2 * count, count + 8));
+
+    // Deterministic pseudo-random start so repeated analyses give identical modes
+    let seed = 12345;
+    const random = () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648 - 0.5;
+    };
+    let X = Array.from({ length: q }, () => Float64Array.from({ length: n }, random));
+
+    let values: number[] = [];
+    let iterations = 0;
+    let converged = false;
+
+    while (iterations < MAX_SUBSPACE_ITERATIONS && !converged) {
+        iterations++;
+
+        // Inverse iteration on the whole subspace, then A-orthonormalize (Gram–Schmidt)
+        const Y = X.map(x => multiplyB(x));
+        const basis: Float64Array[] = [];
+        const basisA: Float64Array[] = [];
+        X.forEach((_, k) => {
+            const y = Float64Array.from(Y[k]);
+            const x = solveA(y);
+            const norm0 = dot(x, y);
+            for (let pass = 0; pass < 2; pass++) {
+                basis.forEach((b, j) => {
+                    const c = dot(x, basisA[j]);
+                    axpy(-c, b, x);
+                    axpy(-c, basisA[j], y);
+                });
+            }
+            const norm = dot(x, y);
+            if (!(norm > 1e-20 * Math.abs(norm0)) || norm <= 0) return;
+            const s = 1 / Math.sqrt(norm);
+            basis.push(x.map(v => v * s));
+            basisA.push(y.map(v => v * s));
+        });
+        if (basis.length === 0) break;
+
+        // Rayleigh–Ritz: with an A-orthonormal basis the projected problem is standard
+        const BX = basis.map(x => multiplyB(x));
+        const C = basis.map((_, i) => basis.map((__, j) => dot(basis[i], BX[j])));
+        const eig = jacobiEigen(C.map((row, i) => row.map((v, j) => (v + C[j][i]) / 2)));
+        const order = eig.values.map((_, i) => i).sort((i, j) => eig.values[j] - eig.values[i]);
+
+        X = order.map(k => {
+            const x = new Float64Array(n);
+            basis.forEach((b, j) => axpy(eig.vectors[j][k], b, x));
+            return x;
+        });
+
+        const next = order.map(k => eig.values[k]);
+        const tracked = Math.min(count, next.length);
+        converged = values.length >= tracked && next.slice(0, tracked).every((mu, i) =>
+            Math.abs(mu - values[i]) <= EIGEN_TOLERANCE * Math.max(Math.abs(mu), 1e-300));
+        values = next;
+    }
+
+    const found = values.map((mu, i) => ({ mu, vector: X[i] })).filter(({ mu }) => mu > minimum).slice(0, count);
+    return { values: found.map(f => f.mu), vectors: found.map(f => f.vector), iterations, converged };
+}
+
+export function dot(a: ArrayLike<number>, b: ArrayLike<number>) {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+}
+
+// y += a·x
+function axpy(a: number, x: ArrayLike<number>, y: Float64Array) {
+    if (a === 0) return;
+    for (let i = 0; i < y.length; i++) y[i] += a * x[i];
+}
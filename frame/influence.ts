@@ -0,0 +1,11 @@
+import { InfluenceQuantity } from './types';
+
+// --- Labels for influence line quantities (sidebar, plots, report) ---
+
+const REACTION_NAMES = { fx: 'Rx', fy: 'Ry', moment: 'Mz' };
+const SECTION_NAMES = { fx: 'N', fy: 'V', moment: 'M' };
+
+export const influenceLabel = (q: InfluenceQuantity): string =>
+    q.target === 'reaction'
+        ? `${REACTION_NAMES[q.component]} at ${q.id}`
+        : `${SECTION_NAMES[q.component]} of ${q.id} at ${q.station !== undefined ? `x = ${q.station}` : 'mid-length'}`;
@@ -0,0 +1,242 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeStructure } from './solver';
+import { StructureModel, Member, LoadType, SupportType } from './types';
+
+// --- Benchmarks against closed-form results ---
+
+const E = 200e9;
+const A = 0.01;
+const I = 1e-4;
+
+const beam = (id: string, startNodeId: string, endNodeId: string, extra: Partial<Member> = {}): Member => ({
+    id, startNodeId, endNodeId, type: 'beam', eModulus: E, area: A, momentInertia: I, ...extra
+});
+
+const truss = (id: string, startNodeId: string, endNodeId: string, extra: Partial<Member> = {}): Member => ({
+    id, startNodeId, endNodeId, type: 'truss', eModulus: E, area: A, ...extra
+});
+
+const expectClose = (actual: number, expected: number, relative = 1e-9) => {
+    expect(Math.abs(actual - expected)).toBeLessThanOrEqual(relative * Math.abs(expected));
+};
+
+describe('fixed-fixed beam under a uniform load', () => {
+    const L = 8;
+    const w = 5000;
+    const model: StructureModel = {
+        nodes: [{ id: 'a', x: 0, y: 0 }, { id: 'm', x: L / 2, y: 0 }, { id: 'b', x: L, y: 0 }],
+        members: [beam('m1', 'a', 'm'), beam('m2', 'm', 'b')],
+        supports: [{ id: 's1', nodeId: 'a', type: SupportType.FIXED }, { id: 's2', nodeId: 'b', type: SupportType.FIXED }],
+        loads: ['m1', 'm2'].map(memberId => ({ id: `w-${memberId}`, type: LoadType.MEMBER_DISTRIBUTED, memberId, magnitudeX: 0, magnitudeY: -w }))
+    };
+    const results = analyzeStructure(model);
+
+    it('solves', () => {
+        expect(results.isStable).toBe(true);
+    });
+
+    it('gives wL/2 and wL²/12 at the supports', () => {
+        expectClose(results.reactions.a.fy, w * L / 2);
+        expectClose(results.reactions.b.fy, w * L / 2);
+        expectClose(results.reactions.a.moment, w * L ** 2 / 12);
+        expectClose(results.reactions.b.moment, -w * L ** 2 / 12);
+    });
+
+    it('deflects wL⁴/384EI at midspan', () => {
+        expectClose(results.displacements.m.y, -w * L ** 4 / (384 * E * I));
+        expect(Math.abs(results.displacements.m.rotation)).toBeLessThan(1e-12);
+    });
+});
+
+describe('truss members under member loads', () => {
+    const model: StructureModel = {
+        nodes: [{ id: 'n1', x: 0, y: 0 }, { id: 'n2', x: 4, y: 0 }, { id: 'n3', x: 2, y: 3 }],
+        members: [truss('m1', 'n1', 'n2'), truss('m2', 'n2', 'n3'), truss('m3', 'n1', 'n3')],
+        supports: [{ id: 's1', nodeId: 'n1', type: SupportType.PIN }, { id: 's2', nodeId: 'n2', type: SupportType.ROLLER }],
+        loads: [
+            { id: 'w', type: LoadType.MEMBER_DISTRIBUTED, memberId: 'm1', magnitudeX: 0, magnitudeY: -10 },
+            { id: 'p', type: LoadType.MEMBER_POINT, memberId: 'm1', magnitudeX: 0, magnitudeY: -6, location: 1 }
+        ]
+    };
+    const results = analyzeStructure(model);
+
+    it('carries the loads to the joints as simple-span end shears', () => {
+        expect(results.isStable).toBe(true);
+        expectClose(results.reactions.n1.fy, 20 + 6 * 3 / 4);
+        expectClose(results.reactions.n2.fy, 20 + 6 / 4);
+        expect(results.memberForces.m1.start.moment).toBe(0);
+        expect(results.memberForces.m1.end.moment).toBe(0);
+    });
+});
+
+describe('propped cantilever under a settlement of the prop', () => {
+    const L = 6;
+    const delta = 0.01;
+    const model: StructureModel = {
+        nodes: [{ id: 'a', x: 0, y: 0 }, { id: 'b', x: L, y: 0 }],
+        members: [beam('m', 'a', 'b')],
+        supports: [{ id: 's1', nodeId: 'a', type: SupportType.FIXED }, { id: 's2', nodeId: 'b', type: SupportType.ROLLER }],
+        loads: [{ id: 'd', type: LoadType.SUPPORT_DISPLACEMENT, nodeId: 'b', magnitudeX: 0, magnitudeY: -delta }]
+    };
+    const results = analyzeStructure(model);
+
+    it('pulls the prop down with 3EIδ/L³', () => {
+        expect(results.isStable).toBe(true);
+        expectClose(results.displacements.b.y, -delta);
+        expectClose(results.reactions.b.fy, -3 * E * I * delta / L ** 3);
+        expectClose(results.reactions.a.fy, 3 * E * I * delta / L ** 3);
+        expectClose(results.reactions.a.moment, 3 * E * I * delta / L ** 2);
+    });
+
+    it('rotates the prop end by 3δ/2L', () => {
+        expectClose(results.displacements.b.rotation, -3 * delta / (2 * L));
+    });
+
+    it('passes its own equilibrium check', () => {
+        expect(results.equilibrium?.warnings).toEqual([]);
+    });
+});
+
+describe('pinned column buckling', () => {
+    const L = 5;
+    const P = 1000;
+    const segments = 8;
+    const model: StructureModel = {
+        nodes: Array.from({ length: segments + 1 }, (_, i) => ({ id: `n${i}`, x: 0, y: L * i / segments })),
+        members: Array.from({ length: segments }, (_, i) => beam(`c${i}`, `n${i}`, `n${i + 1}`)),
+        supports: [
+            { id: 's1', nodeId: 'n0', type: SupportType.PIN },
+            { id: 's2', nodeId: `n${segments}`, type: SupportType.ROLLER, angle: 90 }
+        ],
+        loads: [{ id: 'p', type: LoadType.NODAL_POINT, nodeId: `n${segments}`, magnitudeX: 0, magnitudeY: -P, moment: 0 }],
+        buckling: { modes: 2 }
+    };
+    const modes = analyzeStructure(model).buckling?.modes ?? [];
+
+    it('reaches the Euler load π²EI/L²', () => {
+        expectClose(modes[0].loadFactor * P, Math.PI ** 2 * E * I / L ** 2, 1e-4);
+    });
+
+    it('finds the second mode at four times the first', () => {
+        expectClose(modes[1].loadFactor / modes[0].loadFactor, 4, 1e-3);
+    });
+});
+
+describe('cantilever with a tip mass', () => {
+    const L = 4;
+    const M = 2000;
+    const model: StructureModel = {
+        nodes: [{ id: 'a', x: 0, y: 0 }, { id: 'b', x: 0, y: L, mass: M }],
+        members: [beam('c', 'a', 'b')],
+        supports: [{ id: 's', nodeId: 'a', type: SupportType.FIXED }],
+        loads: [],
+        modal: { modes: 1 }
+    };
+    const modes = analyzeStructure(model).modal?.modes ?? [];
+
+    it('sways with the single-DOF period 2π√(M/k), k = 3EI/L³', () => {
+        expectClose(modes[0].period, 2 * Math.PI * Math.sqrt(M / (3 * E * I / L ** 3)), 1e-6);
+    });
+});
+
+describe('time history of loads switched off', () => {
+    const L = 6;
+    const w = 3000;
+    const model: StructureModel = {
+        nodes: [{ id: 'a', x: 0, y: 0 }, { id: 'b', x: L, y: 0 }],
+        members: [beam('m', 'a', 'b', { massPerLength: 100 })],
+        supports: [{ id: 's1', nodeId: 'a', type: SupportType.FIXED }, { id: 's2', nodeId: 'b', type: SupportType.FIXED }],
+        loads: [{ id: 'w', type: LoadType.MEMBER_DISTRIBUTED, memberId: 'm', magnitudeX: 0, magnitudeY: -w }],
+        timeHistory: { duration: 0.05, timeStep: 0.01, loadFunction: [[0, 0], [1, 0]] }
+    };
+    const history = analyzeStructure(model).timeHistory!;
+
+    it('reports no reactions while f(t) = 0', () => {
+        history.frames.forEach(frame => {
+            expect(Math.abs(frame.reactions.a.fy)).toBeLessThan(1e-9);
+            expect(Math.abs(frame.reactions.a.moment)).toBeLessThan(1e-9);
+        });
+    });
+});
+
+describe('X-braced frame with tension-only diagonals', () => {
+    const model: StructureModel = {
+        nodes: [{ id: '1', x: 0, y: 0 }, { id: '2', x: 0, y: 4 }, { id: '3', x: 4, y: 4 }, { id: '4', x: 4, y: 0 }],
+        members: [
+            truss('c1', '1', '2'), truss('b', '2', '3'), truss('c2', '4', '3'),
+            truss('d1', '1', '3', { behavior: 'tension' }), truss('d2', '4', '2', { behavior: 'tension' })
+        ],
+        supports: [{ id: 's1', nodeId: '1', type: SupportType.PIN }, { id: 's2', nodeId: '4', type: SupportType.PIN }],
+        loads: [
+            { id: 'w', type: LoadType.NODAL_POINT, nodeId: '2', magnitudeX: 1000, magnitudeY: 0, moment: 0, loadCaseId: 'W' },
+            { id: 'w2', type: LoadType.NODAL_POINT, nodeId: '3', magnitudeX: -1000, magnitudeY: 0, moment: 0, loadCaseId: 'W2' }
+        ],
+        loadCases: [{ id: 'W', name: 'W' }, { id: 'W2', name: 'W2' }],
+        combinations: [{ id: 'c', name: '1.0W', factors: { W: 1 } }]
+    };
+    const results = analyzeStructure(model);
+
+    it('still solves the cases when all loads together leave both diagonals slack', () => {
+        expect(results.isStable).toBe(true);
+        expect(results.loadCaseActiveSet?.W.slackMembers).toEqual(['d2']);
+        expect(results.loadCaseActiveSet?.W2.slackMembers).toEqual(['d1']);
+    });
+
+    it('carries each case through its tension diagonal', () => {
+        expectClose(results.loadCases!.W.memberForces.d1.end.fx, 1000 * Math.SQRT2);
+        expectClose(results.combinations!.c.reactions['1'].fx, -1000);
+    });
+});
+
+describe('equilibrium check on models without net forces', () => {
+    const nodes = [{ id: '1', x: 0, y: 0 }, { id: '2', x: 4, y: 0 }, { id: '3', x: 2, y: 3 }];
+    const steel = { density: 7850 };
+    const members = [truss('a', '1', '2', steel), truss('b', '2', '3', steel), truss('c', '1', '3', steel)];
+    const supports = [{ id: 's1', nodeId: '1', type: SupportType.PIN }, { id: 's2', nodeId: '2', type: SupportType.ROLLER }];
+
+    it('stays quiet under a uniform temperature change of a determinate truss', () => {
+        const results = analyzeStructure({
+            nodes, members, supports,
+            loads: members.map(m => ({ id: `t-${m.id}`, type: LoadType.MEMBER_THERMAL, memberId: m.id, magnitudeX: 0, magnitudeY: 0, deltaT: 30 }))
+        });
+        expect(results.equilibrium?.warnings).toEqual([]);
+        expect(results.message).toBe('Analysis Completed Successfully');
+    });
+
+    it('stays quiet under the self-weight of a symmetric truss', () => {
+        const results = analyzeStructure({ nodes, members, supports, loads: [], selfWeight: true });
+        expect(results.equilibrium?.warnings).toEqual([]);
+    });
+});
+
+describe('rigid link to an eccentric load', () => {
+    const H = 3;
+    const model: StructureModel = {
+        nodes: [{ id: 'a', x: 0, y: 0 }, { id: 'b', x: 0, y: H }, { id: 'c', x: 2, y: H + 0.5 }],
+        members: [beam('m', 'a', 'b')],
+        supports: [{ id: 's', nodeId: 'a', type: SupportType.FIXED }],
+        loads: [{ id: 'p', type: LoadType.NODAL_POINT, nodeId: 'c', magnitudeX: 4, magnitudeY: -10, moment: 1 }],
+        constraints: [{ id: 'k', type: 'rigid_link', masterNodeId: 'b', slaveNodeIds: ['c'] }]
+    };
+    const results = analyzeStructure(model);
+
+    it('brings the load and its lever arm to the column', () => {
+        expectClose(results.reactions.a.fx, -4);
+        expectClose(results.reactions.a.fy, 10);
+        // Moment of the load about the base: x·Fy − y·Fx + M
+        expectClose(results.reactions.a.moment, -(2 * -10 - (H + 0.5) * 4 + 1));
+    });
+
+    it('moves the slave with the master as a rigid body', () => {
+        const { b, c } = results.displacements;
+        expectClose(c.x, b.x - b.rotation * 0.5);
+        expectClose(c.y, b.y + b.rotation * 2);
+        expectClose(c.rotation, b.rotation);
+    });
+
+    it('reports the force the link exerts on the slave', () => {
+        expectClose(results.constraintForces!.c.fx, -4);
+        expectClose(results.constraintForces!.c.fy, 10);
+        expectClose(results.constraintForces!.c.moment, -1);
+    });
+});
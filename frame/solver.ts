@@ -1,4 +1,45 @@
-import { StructureModel, AnalysisResults, LoadType, SupportType } from './types';
+import { StructureModel, AnalysisResults, ConstraintType, MemberDiagram, MemberStation, EquilibriumCheck, ConditioningInfo, DofStiffness, LoadType, SupportType, DofName, InstabilityInfo, NodalDisplacement, MemberReleases, SupportReaction, SelfWeightSummary, Load, ResultSet, ResultEnvelope, PDeltaInfo, ActiveSetInfo, MemberBehavior, MemberOffsets, EndOffset, BucklingResults, ModalResults, MassType, TimeHistorySettings, TimeHistoryResults, ResponseSpectrumSettings, ResponseSpectrumResults, MovingLoadSettings, MovingLoadResults, InfluenceQuantity, ForceVector } from './types';
+import { interpolateTimeSeries } from './timeSeries';
+import { spectralAcceleration, cqcCorrelation } from './spectrum';
+import { sectionAt, meanArea, sectionStations } from './taper';
+import { SparseMatrix, SkylineMatrix, reverseCuthillMcKee } from './sparse';
+import { subspaceIteration, dot } from './eigen';
+
+// Dense copies of K are only exported for small models (the report prints up to 40 columns)
+const MAX_DENSE_EXPORT_DOFS = 240;
+// Mechanism shapes returned for an unstable structure
+const MAX_MECHANISM_MODES = 5;
+// P-Delta stops once no axial force changes by more than this fraction of the largest one
+const P_DELTA_TOLERANCE = 1e-6;
+const MAX_P_DELTA_ITERATIONS = 50;
+// Axial forces below this fraction of the largest one do not make a member go slack
+const ACTIVE_SET_TOLERANCE = 1e-9;
+const MAX_ACTIVE_SET_ITERATIONS = 50;
+// Three-point Gauss segments over the length of a tapered member
+const TAPER_SEGMENTS = 16;
+
+const DEFAULT_MEMBER_STATIONS = 11;
+
+// Relative out-of-balance above which the equilibrium check warns
+const EQUILIBRIUM_TOLERANCE = 1e-6;
+
+// Stiffness spreads (condition number, diagonal ratio) that point to mixed units
+const ILL_CONDITIONING_RATIO = 1e12;
+const CONDITIONING_DOFS = 3;
+// Critical load factors returned by a buckling analysis unless the model asks for more
+const DEFAULT_BUCKLING_MODES = 3;
+const DEFAULT_VIBRATION_MODES = 6;
+
+const DEFAULT_DAMPING_RATIO = 0.05;
+const DEFAULT_SPECTRUM_MODES = 12;
+
+const MOVING_LOAD_STEPS = 100;
+const MAX_MOVING_LOAD_POSITIONS = 5000;
+const MAX_TIME_STEPS = 20000;
+// Time-history frames kept for playback; peaks still cover every step
+const MAX_HISTORY_FRAMES = 500;
+
+const DOF_NAMES: DofName[] = ['x', 'y', 'rotation'];
 
 // --- Linear Algebra Helpers (Mimicking Numpy) ---
 const NP = {
@@ -42,43 +83,6 @@ const NP = {
         return A[0].map((_, colIndex) => A.map(row => row[colIndex]));
     },
 
-    solve: (A: number[][], b: number[]): number[] => {
-        // Gaussian elimination with partial pivoting
-        const n = A.length;
-        const M = A.map(row => [...row]);
-        const x = [...b];
-
-        for (let i = 0; i < n; i++) {
-            let maxRow = i;
-            for (let k = i + 1; k < n; k++) {
-                if (Math.abs(M[k][i]) > Math.abs(M[maxRow][i])) maxRow = k;
-            }
-
-            [M[i], M[maxRow]] = [M[maxRow], M[i]];
-            [x[i], x[maxRow]] = [x[maxRow], x[i]];
-
-            if (Math.abs(M[i][i]) < 1e-12) continue; // Singular handling done by caller check usually
-
-            for (let k = i + 1; k < n; k++) {
-                const factor = M[k][i] / M[i][i];
-                x[k] -= factor * x[i];
-                for (let j = i; j < n; j++) M[k][j] -= factor * M[i][j];
-            }
-        }
-
-        const res = new Array(n).fill(0);
-        for (let i = n - 1; i >= 0; i--) {
-            if (Math.abs(M[i][i]) < 1e-12) {
-                res[i] = 0; // Free movement if singular (simplified)
-            } else {
-                let sum = 0;
-                for (let j = i + 1; j < n; j++) sum += M[i][j] * res[j];
-                res[i] = (x[i] - sum) / M[i][i];
-            }
-        }
-        return res;
-    },
-
     ix_: (matrix: number[][], rows: number[], cols: number[]): number[][] => {
         const res = NP.zeros(rows.length, cols.length) as number[][];
         for (let i = 0; i < rows.length; i++) {
@@ -87,15 +91,6 @@ const NP = {
             }
         }
         return res;
-    },
-
-    // Helpers to manipulate matrix directly
-    addToSubmatrix: (target: number[][], source: number[][], rows: number[], cols: number[]) => {
-        for (let i = 0; i < rows.length; i++) {
-            for (let j = 0; j < cols.length; j++) {
-                target[rows[i]][cols[j]] += source[i][j];
-            }
-        }
     }
 };
 
@@ -120,30 +115,344 @@ function transformation_matrix(s: number, c: number, dof = 6): number[][] {
     return NP.ix_(t, keep, keep);
 }
 
+/**
+ * Global vectors from the nodes to the faces of the rigid end zones. A length is measured
+ * along the member from its node (dx, dy is the node-to-node vector), a vector is global.
+ */
+function end_offset_vectors(dx: number, dy: number, offsets?: MemberOffsets): number[][] | null {
+    if (!offsets || (!offsets.start && !offsets.end)) return null;
+    const length = Math.sqrt(dx ** 2 + dy ** 2) || 1;
+    const vector = (offset: EndOffset | undefined, sign: number) => {
+        if (!offset) return [0, 0];
+        if (typeof offset === 'number') return [sign * offset * dx / length, sign * offset * dy / length];
+        return [offset.x || 0, offset.y || 0];
+    };
+    return [vector(offsets.start, 1), vector(offsets.end, -1)];
+}
+
+/**
+ * Rigid link from the node DOFs to the face DOFs (global axes) of both ends:
+ * u_face = u_node − θ·r_y, v_face = v_node + θ·r_x, θ_face = θ_node.
+ */
+function rigid_link_matrix(r: number[][]): number[][] {
+    const B: number[][] = [0, 1, 2, 3, 4, 5].map(i => [0, 1, 2, 3, 4, 5].map(j => (i === j ? 1 : 0)));
+    r.forEach(([rx, ry], end) => {
+        B[end * 3][end * 3 + 2] = -ry;
+        B[end * 3 + 1][end * 3 + 2] = rx;
+    });
+    return B;
+}
+
+// Local DOF indices of the released actions: [axial, shear, moment] at start (0-2) and end (3-5)
+function released_dofs(releases?: MemberReleases): number[] {
+    if (!releases) return [];
+    const dofs: number[] = [];
+    [releases.start, releases.end].forEach((r, end) => {
+        if (!r) return;
+        if (r.axial) dofs.push(end * 3);
+        if (r.shear) dofs.push(end * 3 + 1);
+        if (r.moment) dofs.push(end * 3 + 2);
+    });
+    return dofs;
+}
+
+// Member load in local axes, kept for sampling along the member: a point load p = [Px, Py]
+// at a, or a load varying linearly from w1 at a to w2 at b
+type SpanLoad = { a: number; p: number[] } | { a: number; b: number; w1: number[]; w2: number[] };
+
+// Gauss–Legendre points and weights on [-1, 1]
+const GAUSS_3 = [
+    [-Math.sqrt(3 / 5), 5 / 9],
+    [0, 8 / 9],
+    [Math.sqrt(3 / 5), 5 / 9]
+];
+
+/**
+ * Equivalent nodal loads (local axes) of a point load with axial and transverse
+ * components at distance a: linear shape functions axially, Hermite transversely.
+ * With shear deformation (φ = 12EI / (G·As·L²)) the transverse shapes are the exact
+ * Timoshenko ones, which reduce to the Hermite cubics for φ = 0.
+ */
+function point_load_fef(Px: number, Py: number, a: number, L: number, phi = 0): number[] {
+    const xi = a / L;
+    const shear = phi * (xi - xi ** 2);
+    return [
+        Px * (1 - xi),
+        Py * (1 - 3 * xi ** 2 + 2 * xi ** 3 + phi * (1 - xi)) / (1 + phi),
+        Py * L * (xi - 2 * xi ** 2 + xi ** 3 + shear / 2) / (1 + phi),
+        Px * xi,
+        Py * (3 * xi ** 2 - 2 * xi ** 3 + phi * xi) / (1 + phi),
+        Py * L * (xi ** 3 - xi ** 2 - shear / 2) / (1 + phi)
+    ];
+}
+
+// Composite three-point Gauss rule for ∫ f(x) dx over [a, b]
+function integrate(a: number, b: number, segments: number, f: (x: number) => number) {
+    const h = (b - a) / segments;
+    let sum = 0;
+    for (let s = 0; s < segments; s++) {
+        const mid = a + (s + 0.5) * h;
+        GAUSS_3.forEach(([xi, weight]) => { sum += weight * h / 2 * f(mid + xi * h / 2); });
+    }
+    return sum;
+}
+
+/**
+ * Non-prismatic member, integrated numerically from its rigidities along the clear length:
+ * [EA, EI, GAs] at a fraction ξ of the length (GAs = 0 without shear deformation). The basic
+ * forces are the axial force and the end moments of the simply supported member.
+ */
+class TaperedSection {
+    L: number;
+    rigidity: (xi: number) => number[];
+    // ∫ dx/EA and the 2×2 end rotation flexibility (bending plus shear)
+    axial_flexibility: number;
+    flexibility: number[][];
+
+    constructor(L: number, rigidity: (xi: number) => number[]) {
+        this.L = L;
+        this.rigidity = rigidity;
+        this.axial_flexibility = this.integrate_axial(0, L);
+        // Moments of unit end moments: m1 = −(1 − ξ), m2 = ξ; both give the shear 1/L
+        const m = [(x: number) => x / L - 1, (x: number) => x / L];
+        this.flexibility = [0, 1].map(i => [0, 1].map(j => this.integrate_bending(0, L, x => m[i](x) * m[j](x), () => 1 / L ** 2)));
+    }
+
+    integrate_axial(a: number, b: number) {
+        const { L } = this;
+        return integrate(a, b, Math.max(2, Math.ceil(TAPER_SEGMENTS * (b - a) / L)), x => 1 / this.rigidity(x / L)[0]);
+    }
+
+    // ∫ M·m / EI dx + ∫ V·v / GAs dx for the products of moments and shears given
+    integrate_bending(a: number, b: number, moment: (x: number) => number, shear: (x: number) => number) {
+        const { L } = this;
+        return integrate(a, b, Math.max(2, Math.ceil(TAPER_SEGMENTS * (b - a) / L)), x => {
+            const [, EI, GAs] = this.rigidity(x / L);
+            return moment(x) / EI + (GAs > 0 ? shear(x) / GAs : 0);
+        });
+    }
+
+    // k_local = aᵀ k_b a, with a the compatibility matrix of the basic deformations
+    local_stiffness_matrix() {
+        const { L } = this;
+        const [[f11, f12], [f21, f22]] = this.flexibility;
+        const det = f11 * f22 - f12 * f21;
+        const kb = [[1 / this.axial_flexibility, 0, 0], [0, f22 / det, -f12 / det], [0, -f21 / det, f11 / det]];
+        const a = [
+            [-1, 0, 0, 1, 0, 0],
+            [0, 1 / L, 1, 0, -1 / L, 0],
+            [0, 1 / L, 0, 0, -1 / L, 1]
+        ];
+        return NP.matmul(NP.transpose(a), NP.matmul(kb, a)) as number[][];
+    }
+
+    /**
+     * Equivalent nodal loads from the rotations θ0 and elongation Δ0 of the simply supported
+     * member under a load: the fixed-end moments are −k_b θ0 and the axial ends share the load
+     * in proportion to the axial flexibility on either side of it.
+     */
+    fixed_end_loads(theta: number[], simple: number[]) {
+        const { L } = this;
+        const [[f11, f12], [f21, f22]] = this.flexibility;
+        const det = f11 * f22 - f12 * f21;
+        const q1 = -(f22 * theta[0] - f12 * theta[1]) / det;
+        const q2 = -(-f21 * theta[0] + f11 * theta[1]) / det;
+        // simple = [start axial, start shear, end axial, end shear] reactions of the simple member
+        const R = [simple[0], simple[1] + (q1 + q2) / L, q1, simple[2], simple[3] - (q1 + q2) / L, q2];
+        return R.map(v => -v);
+    }
+
+    point_load_fef(Px: number, Py: number, a: number) {
+        const { L } = this;
+        // Simply supported moment (sagging positive) and shear of an upward load Py at a
+        const M0 = (x: number) => -Py * (x < a ? (L - a) * x : a * (L - x)) / L;
+        const V0 = (x: number) => (x < a ? -Py * (L - a) / L : Py * a / L);
+        const m = [(x: number) => x / L - 1, (x: number) => x / L];
+        const theta = m.map(mi => this.integrate_bending(0, a, x => M0(x) * mi(x), x => V0(x) / L)
+            + this.integrate_bending(a, L, x => M0(x) * mi(x), x => V0(x) / L));
+        const r = this.integrate_axial(0, a) / this.axial_flexibility;
+        return this.fixed_end_loads(theta, [-Px * (1 - r), -Py * (L - a) / L, -Px * r, -Py * a / L]);
+    }
+
+    // Imposed axial strain and (sagging) curvature, e.g. from temperature
+    strain_fef(strain: number, curvature: number) {
+        const { L } = this;
+        const theta = [-curvature * L / 2, curvature * L / 2];
+        const N = strain * L / this.axial_flexibility;
+        const fef = this.fixed_end_loads(theta, [0, 0, 0, 0]);
+        fef[0] -= N;
+        fef[3] += N;
+        return fef;
+    }
+}
+
 class BeamElement {
     A: number; E: number; I: number; l: number; s: number; c: number;
+    released: number[];
+    // Shear deformation parameter φ = 12EI / (G·As·L²); zero is Euler–Bernoulli
+    phi: number;
+    tapered?: TaperedSection;
 
-    constructor(A: number, E: number, I: number, l: number, s: number, c: number) {
+    constructor(A: number, E: number, I: number, l: number, s: number, c: number, released: number[] = [], phi = 0, tapered?: TaperedSection) {
         this.A = A; this.E = E; this.I = I; this.l = l; this.s = s; this.c = c;
+        this.released = released;
+        this.phi = phi;
+        this.tapered = tapered;
     }
 
+    // Timoshenko stiffness; the geometric stiffness and mass matrices stay Euler–Bernoulli
+    // (and use the start section of a tapered member)
     beam_local_stiffness_matrix() {
-        const { E, A, I, l } = this;
+        if (this.tapered) return this.tapered.local_stiffness_matrix();
+        const { E, A, I, l, phi } = this;
         const c1 = A * E / l;
-        const c2 = E * I / Math.pow(l, 3);
+        const c2 = E * I / (Math.pow(l, 3) * (1 + phi));
 
         return [
             [c1, 0, 0, -c1, 0, 0],
             [0, 12 * c2, 6 * c2 * l, 0, -12 * c2, 6 * c2 * l],
-            [0, 6 * c2 * l, 4 * c2 * Math.pow(l, 2), 0, -6 * c2 * l, 2 * c2 * Math.pow(l, 2)],
+            [0, 6 * c2 * l, (4 + phi) * c2 * Math.pow(l, 2), 0, -6 * c2 * l, (2 - phi) * c2 * Math.pow(l, 2)],
             [-c1, 0, 0, c1, 0, 0],
             [0, -12 * c2, -6 * c2 * l, 0, 12 * c2, -6 * c2 * l],
-            [0, 6 * c2 * l, 2 * c2 * Math.pow(l, 2), 0, -6 * c2 * l, 4 * c2 * Math.pow(l, 2)]
+            [0, 6 * c2 * l, (2 - phi) * c2 * Math.pow(l, 2), 0, -6 * c2 * l, (4 + phi) * c2 * Math.pow(l, 2)]
+        ];
+    }
+
+    /**
+     * Static condensation of the released DOFs, one at a time:
+     * k* = k_cc - k_cr k_rr⁻¹ k_rc and f* = f_c - k_cr k_rr⁻¹ f_r.
+     * A DOF with no remaining stiffness (e.g. both shear ends released) is simply dropped.
+     */
+    condense(k: number[][], f?: number[]) {
+        const kc = k.map(row => [...row]);
+        const fc = f ? [...f] : undefined;
+        const scale = Math.max(...k.map((row, i) => Math.abs(row[i])));
+
+        this.released.forEach(r => {
+            const krr = kc[r][r];
+            if (Math.abs(krr) > 1e-12 * scale) {
+                for (let i = 0; i < 6; i++) {
+                    if (i === r) continue;
+                    const factor = kc[i][r] / krr;
+                    if (factor === 0) continue;
+                    for (let j = 0; j < 6; j++) kc[i][j] -= factor * kc[r][j];
+                    if (fc) fc[i] -= factor * fc[r];
+                }
+            }
+            for (let i = 0; i < 6; i++) { kc[i][r] = 0; kc[r][i] = 0; }
+            if (fc) fc[r] = 0;
+        });
+
+        return { k: kc, f: fc };
+    }
+
+    /**
+     * Geometric stiffness of an axial force N (tension positive). Beams use the consistent
+     * matrix of the cubic shape functions; members without bending stiffness only get the
+     * string term N/L on the transverse translations.
+     */
+    beam_geometric_stiffness_matrix(N: number) {
+        const { I, l } = this;
+        const c = N / l;
+
+        if (I === 0) {
+            return [
+                [0, 0, 0, 0, 0, 0],
+                [0, c, 0, 0, -c, 0],
+                [0, 0, 0, 0, 0, 0],
+                [0, 0, 0, 0, 0, 0],
+                [0, -c, 0, 0, c, 0],
+                [0, 0, 0, 0, 0, 0]
+            ];
+        }
+
+        return [
+            [0, 0, 0, 0, 0, 0],
+            [0, 6 * c / 5, c * l / 10, 0, -6 * c / 5, c * l / 10],
+            [0, c * l / 10, 2 * c * Math.pow(l, 2) / 15, 0, -c * l / 10, -c * Math.pow(l, 2) / 30],
+            [0, 0, 0, 0, 0, 0],
+            [0, -6 * c / 5, -c * l / 10, 0, 6 * c / 5, -c * l / 10],
+            [0, c * l / 10, -c * Math.pow(l, 2) / 30, 0, -c * l / 10, 2 * c * Math.pow(l, 2) / 15]
         ];
     }
 
-    beam_stiffness_matrix() {
-        const k_local = this.beam_local_stiffness_matrix();
+    /**
+     * Mass matrix of a mass m per unit length in member axes: linear axial and cubic
+     * transverse shape functions (consistent), or half the mass on each end's translations
+     * (lumped). Members without bending stiffness use linear shapes both ways.
+     */
+    beam_mass_matrix(m: number, type: MassType) {
+        const { l } = this;
+        if (type === 'lumped') {
+            const h = m * l / 2;
+            return [0, 1, 2, 3, 4, 5].map(i => [0, 1, 2, 3, 4, 5].map(j => (i === j && i % 3 !== 2 ? h : 0)));
+        }
+
+        if (this.I === 0) {
+            const c = m * l / 6;
+            return [
+                [2 * c, 0, 0, c, 0, 0],
+                [0, 2 * c, 0, 0, c, 0],
+                [0, 0, 0, 0, 0, 0],
+                [c, 0, 0, 2 * c, 0, 0],
+                [0, c, 0, 0, 2 * c, 0],
+                [0, 0, 0, 0, 0, 0]
+            ];
+        }
+
+        const c = m * l / 420;
+        return [
+            [140 * c, 0, 0, 70 * c, 0, 0],
+            [0, 156 * c, 22 * c * l, 0, 54 * c, -13 * c * l],
+            [0, 22 * c * l, 4 * c * Math.pow(l, 2), 0, 13 * c * l, -3 * c * Math.pow(l, 2)],
+            [70 * c, 0, 0, 140 * c, 0, 0],
+            [0, 54 * c, 13 * c * l, 0, 156 * c, -22 * c * l],
+            [0, -13 * c * l, -3 * c * Math.pow(l, 2), 0, -22 * c * l, 4 * c * Math.pow(l, 2)]
+        ];
+    }
+
+    /**
+     * Released DOFs eliminated from a companion matrix (geometric stiffness, mass) with the
+     * static condensation shapes of K, i.e. Tᵀ G T. For K_g this is K + λK_g condensed to
+     * first order in λ, so the buckling eigenproblem stays linear in the load factor.
+     */
+    condense_companion(g: number[][]) {
+        const kc = this.beam_local_stiffness_matrix();
+        const gc = g.map(row => [...row]);
+        const scale = Math.max(...kc.map((row, i) => Math.abs(row[i])));
+
+        this.released.forEach(r => {
+            const krr = kc[r][r];
+            if (Math.abs(krr) > 1e-12 * scale) {
+                const grr = gc[r][r];
+                for (let i = 0; i < 6; i++) {
+                    if (i === r) continue;
+                    for (let j = 0; j < 6; j++) {
+                        if (j === r) continue;
+                        gc[i][j] += (kc[i][r] * kc[r][j] * grr / krr - gc[i][r] * kc[r][j] - kc[i][r] * gc[r][j]) / krr;
+                    }
+                }
+                for (let i = 0; i < 6; i++) {
+                    if (i === r) continue;
+                    for (let j = 0; j < 6; j++) {
+                        if (j !== r) kc[i][j] -= kc[i][r] * kc[r][j] / krr;
+                    }
+                }
+            }
+            for (let i = 0; i < 6; i++) { kc[i][r] = 0; kc[r][i] = 0; gc[i][r] = 0; gc[r][i] = 0; }
+        });
+
+        return gc;
+    }
+
+    // Releases are condensed out of the combined elastic and geometric stiffness
+    beam_stiffness_matrix(N = 0) {
+        let k = this.beam_local_stiffness_matrix();
+        if (N !== 0) {
+            const k_g = this.beam_geometric_stiffness_matrix(N);
+            k = k.map((row, i) => row.map((v, j) => v + k_g[i][j]));
+        }
+        const k_local = this.condense(k).k;
         const t = transformation_matrix(this.s, this.c);
         const tT = NP.transpose(t);
         const k_global = NP.matmul(tT, NP.matmul(k_local, t));
@@ -179,20 +488,39 @@ class SpringElement {
 class Structure {
     nodes: any = {};
     elements: any = {};
-    K: number[][] = [];
-    K_reduced: number[][] = [];
+    K: SparseMatrix = new SparseMatrix(0);
+    K_factor: SkylineMatrix | null = null;
     node_load: number[] = [];
     eq_node_load: number[] = [];
     eff_node_load: number[] = [];
+    prescribed_displacements: number[] = [];
     node_load_reduced: number[] = [];
     free_dof: number[] = [];
     fix_dof: number[] = [];
+    // Free DOFs in solver equation order (after node renumbering)
+    equation_order: number[] = [];
+    // Global displacements, and the same in nodal axes (differs only at inclined supports)
     node_displacements: number[] = [];
+    nodal_axes_displacements: number[] = [];
     free_dof_displacements: number[] = [];
+    // Reactions at fix_dof, in nodal axes
     reactions: number[] = [];
+    // Elastic support DOFs (nodal axes) and their spring reactions
+    spring_dofs: { dof: number; k: number }[] = [];
+    spring_reactions: number[] = [];
+    // Global DOFs with a vanishing pivot and the matching null vectors (mechanisms)
+    singular_dofs: number[] = [];
+    mechanism_modes: number[][] = [];
+    // Multi-point constraints as given ([master DOF, coefficient] per slave DOF), and every slave
+    // DOF resolved into independent DOFs; slave DOFs stay out of the equations (u = T û)
+    constraints: { idStr: string; master: number; slaves: number[]; terms: Map<number, [number, number][]> }[] = [];
+    slave_dofs = new Map<number, [number, number][]>();
+    // Forces the constraints exert on the nodes (nodal axes)
+    constraint_forces: number[] = [];
 
     // Map string IDs to integers (1-based)
     idMap: { [key: string]: number } = {};
+    elemIdMap: { [key: string]: number } = {};
     nodeCount = 0;
     elemCount = 0;
 
@@ -202,11 +530,39 @@ class Structure {
         this.nodes[this.nodeCount] = { id: this.nodeCount, idStr, x, y };
     }
 
+    // Lumped mass on both translations and a mass moment of inertia on the rotation
+    add_node_mass(idStr: string, mass: number, rotationalMass = 0) {
+        const node_id = this.get_id(idStr);
+        if (node_id) this.nodes[node_id]["mass"] = [mass, mass, rotationalMass];
+    }
+
     get_id(idStr: string) { return this.idMap[idStr]; }
 
-    get_length_sine_cosine(node_i: number, node_j: number) {
-        const del_x = this.nodes[node_j]["x"] - this.nodes[node_i]["x"];
-        const del_y = this.nodes[node_j]["y"] - this.nodes[node_i]["y"];
+    // Tension-only or compression-only member, taken out of the stiffness while slack
+    set_behavior(idStr: string, behavior: MemberBehavior) {
+        const elId = this.elemIdMap[idStr];
+        if (elId) this.elements[elId]["behavior"] = behavior;
+    }
+
+    // Non-prismatic member from its rigidities [EA, EI, GAs] at a fraction of the clear length
+    set_taper(idStr: string, rigidity: (xi: number) => number[]) {
+        const elId = this.elemIdMap[idStr];
+        if (elId) this.elements[elId]["tapered"] = new TaperedSection(this.elements[elId]["length"], rigidity);
+    }
+
+    // Marks the given tension/compression-only members slack and every other one active
+    reset_active_set(slack: string[] = []) {
+        for (const key in this.elements) {
+            const el = this.elements[key];
+            if (el.behavior) el.slack = slack.includes(el.idStr);
+        }
+    }
+
+    // Between the faces of the rigid end zones when offset vectors are given
+    get_length_sine_cosine(node_i: number, node_j: number, offsets?: number[][] | null) {
+        const [[xi, yi], [xj, yj]] = offsets ?? [[0, 0], [0, 0]];
+        const del_x = this.nodes[node_j]["x"] + xj - this.nodes[node_i]["x"] - xi;
+        const del_y = this.nodes[node_j]["y"] + yj - this.nodes[node_i]["y"] - yi;
         const length = Math.sqrt(del_x ** 2 + del_y ** 2);
         // Avoid division by zero
         if (length === 0) return { length: 0.0001, sine: 0, cosine: 1 };
@@ -215,21 +571,33 @@ class Structure {
         return { length, sine, cosine };
     }
 
-    add_frame(idStr: string, node_i_str: string, node_j_str: string, E = 1, A = 10, I = 1) {
+    /**
+     * A positive shear rigidity G·As adds shear deformation (Timoshenko beam). With rigid
+     * end offsets the element spans the clear length between the faces and is tied to its
+     * nodes through rigid links.
+     */
+    add_frame(idStr: string, node_i_str: string, node_j_str: string, E = 1, A = 10, I = 1, releases?: MemberReleases, alpha = 1.2e-5, depth?: number, mass = 0, shearRigidity = 0, offsets?: MemberOffsets) {
         this.elemCount++;
         const id = this.elemCount;
+        this.elemIdMap[idStr] = id;
         const node_i = this.get_id(node_i_str);
         const node_j = this.get_id(node_j_str);
-        const { length, sine, cosine } = this.get_length_sine_cosine(node_i, node_j);
+        const r = end_offset_vectors(this.nodes[node_j]["x"] - this.nodes[node_i]["x"], this.nodes[node_j]["y"] - this.nodes[node_i]["y"], offsets);
+        const { length, sine, cosine } = this.get_length_sine_cosine(node_i, node_j, r);
 
         this.elements[id] = {
-            id, idStr, node_i, node_j, length, sine, cosine, E, A, I, type: "frame"
+            id, idStr, node_i, node_j, length, sine, cosine, E, A, I, type: "frame",
+            released: released_dofs(releases),
+            alpha, depth: depth || Math.sqrt(12 * I / A), mass,
+            phi: shearRigidity > 0 ? 12 * E * I / (shearRigidity * length ** 2) : 0,
+            rigid: r ? rigid_link_matrix(r) : undefined
         };
     }
 
     add_spring(idStr: string, node_i_str: string, node_j_str: string, k: number) {
         this.elemCount++;
         const id = this.elemCount;
+        this.elemIdMap[idStr] = id;
         const node_i = this.get_id(node_i_str);
         const node_j = this.get_id(node_j_str);
         const { length, sine, cosine } = this.get_length_sine_cosine(node_i, node_j);
@@ -239,9 +607,117 @@ class Structure {
         };
     }
 
-    add_support(node_id_str: string, type = [0, 0, 0]) {
+    add_support(node_id_str: string, type = [0, 0, 0], angle = 0, springs = [0, 0, 0]) {
         const node_id = this.get_id(node_id_str);
-        if (node_id) this.nodes[node_id]["support"] = type;
+        if (!node_id) return;
+        // An elastic DOF is free in the equations and restrained only by its spring
+        this.nodes[node_id]["support"] = type.map((t, i) => springs[i] > 0 ? 0 : t);
+        if (angle !== 0) this.nodes[node_id]["angle"] = angle * Math.PI / 180;
+        if (springs.some(k => k > 0)) this.nodes[node_id]["springs"] = springs;
+    }
+
+    /**
+     * Ties the given DOFs of the slave nodes to the master node. Rigid links carry the master
+     * rotation into the slave translations through the lever arm from master to slave.
+     */
+    add_constraint(idStr: string, type: ConstraintType, master_str: string, slave_strs: string[], dofs: DofName[] = DOF_NAMES) {
+        const master = this.get_id(master_str);
+        if (!master) return;
+        const [mx, my, mr] = this.get_dofs(master);
+        const terms = new Map<number, [number, number][]>();
+        const slaves: number[] = [];
+        slave_strs.forEach(slave_str => {
+            const slave = this.get_id(slave_str);
+            if (!slave || slave === master) return;
+            slaves.push(slave);
+            const dx = this.nodes[slave].x - this.nodes[master].x;
+            const dy = this.nodes[slave].y - this.nodes[master].y;
+            const [sx, sy, sr] = this.get_dofs(slave);
+            const rigid = type === "rigid_link";
+            if (dofs.includes("x")) terms.set(sx, rigid && dy !== 0 ? [[mx, 1], [mr, -dy]] : [[mx, 1]]);
+            if (dofs.includes("y")) terms.set(sy, rigid && dx !== 0 ? [[my, 1], [mr, dx]] : [[my, 1]]);
+            if (dofs.includes("rotation")) terms.set(sr, [[mr, 1]]);
+        });
+        this.constraints.push({ idStr, master, slaves, terms });
+    }
+
+    /**
+     * Expresses every slave DOF in DOFs that are not slaves themselves, following chains of
+     * constraints. Returns why the constraints cannot be used, or null.
+     */
+    resolve_constraints(): string | null {
+        const label = (dof: number) => `${this.nodes[Math.floor(dof / 3) + 1].idStr} (${DOF_NAMES[dof % 3]})`;
+        const direct = new Map<number, [number, number][]>();
+        for (const c of this.constraints) {
+            const tied = [c.master, ...c.slaves].find(node => this.get_nodal_rotation(node));
+            if (tied) return `Constraint ${c.idStr} ties node ${this.nodes[tied].idStr}, whose support axes are inclined.`;
+            for (const [dof, terms] of c.terms) {
+                if (direct.has(dof)) return `${label(dof)} is tied by more than one constraint.`;
+                if (this.nodes[Math.floor(dof / 3) + 1].support?.[dof % 3] === 1) {
+                    return `${label(dof)} is restrained by a support and cannot be tied by constraint ${c.idStr}.`;
+                }
+                direct.set(dof, terms);
+            }
+        }
+
+        this.slave_dofs = new Map();
+        const resolve = (dof: number, visiting: Set<number>): [number, number][] | null => {
+            const resolved = this.slave_dofs.get(dof);
+            if (resolved) return resolved;
+            if (visiting.has(dof)) return null;
+            visiting.add(dof);
+            const sum = new Map<number, number>();
+            for (const [m, c] of direct.get(dof)!) {
+                const sub = direct.has(m) ? resolve(m, visiting) : [[m, 1]] as [number, number][];
+                if (!sub) return null;
+                sub.forEach(([k, a]) => sum.set(k, (sum.get(k) || 0) + c * a));
+            }
+            const terms = [...sum].filter(([, c]) => c !== 0);
+            this.slave_dofs.set(dof, terms);
+            return terms;
+        };
+        for (const dof of direct.keys()) {
+            if (!resolve(dof, new Set())) return `Constraints form a loop through ${label(dof)}.`;
+        }
+        return null;
+    }
+
+    // Rotation from nodal (support) axes to global axes: u_global = R u_nodal
+    get_nodal_rotation(node_id: number): number[][] | null {
+        const angle = this.nodes[node_id]["angle"];
+        if (!angle) return null;
+        const c = Math.cos(angle), s = Math.sin(angle);
+        return [[c, -s, 0], [s, c, 0], [0, 0, 1]];
+    }
+
+    // K' = Tᵀ K T for an element whose nodes carry rotated axes
+    to_nodal_axes(k_el: number[][], node_i: number, node_j: number) {
+        const R_i = this.get_nodal_rotation(node_i);
+        const R_j = this.get_nodal_rotation(node_j);
+        if (!R_i && !R_j) return k_el;
+
+        const T = NP.zeros(6, 6) as number[][];
+        [R_i, R_j].forEach((R, n) => {
+            for (let r = 0; r < 3; r++) {
+                for (let c = 0; c < 3; c++) T[n * 3 + r][n * 3 + c] = R ? R[r][c] : (r === c ? 1 : 0);
+            }
+        });
+        return NP.matmul(NP.transpose(T), NP.matmul(k_el, T));
+    }
+
+    // Applies R (toGlobal) or Rᵀ to every rotated node block of a full-length vector
+    rotate_vector(v: number[], toGlobal: boolean) {
+        const out = [...v];
+        for (let i = 1; i <= this.nodeCount; i++) {
+            const R = this.get_nodal_rotation(i);
+            if (!R) continue;
+            const dofs = this.get_dofs(i);
+            for (let r = 0; r < 3; r++) {
+                out[dofs[r]] = 0;
+                for (let c = 0; c < 3; c++) out[dofs[r]] += (toGlobal ? R[r][c] : R[c][r]) * v[dofs[c]];
+            }
+        }
+        return out;
     }
 
     add_node_load(node_id_str: string, load: number[]) {
@@ -252,51 +728,158 @@ class Structure {
         }
     }
 
+    add_prescribed_displacement(node_id_str: string, displacement: number[]) {
+        const node_id = this.get_id(node_id_str);
+        if (node_id) {
+            const existing = this.nodes[node_id]["prescribed"] || [0, 0, 0];
+            this.nodes[node_id]["prescribed"] = existing.map((v: number, i: number) => v + displacement[i]);
+        }
+    }
+
     add_distributed_load(idStr: string, w: number, type = "udl", location?: number) {
         // Find numeric ID
-        const id = Object.values(this.elements).find((e: any) => e.idStr === idStr) as any;
-        if (!id) return;
-        const elId = id.id;
+        const elId = this.elemIdMap[idStr];
+        if (!elId) return;
 
         const L = this.elements[elId]["length"];
         if (type === "udl") {
             this.elements[elId]["udl"] = w;
-            this.elements[elId]["eq_load"] = [0, w * L / 2, w * L ** 2 / 12, 0, w * L / 2, -w * L ** 2 / 12];
+            this.add_eq_load(elId, [0, w * L / 2, w * L ** 2 / 12, 0, w * L / 2, -w * L ** 2 / 12]);
         }
         else if (type === "triangular_sym") {
             this.elements[elId]["triangular_sym"] = w;
-            this.elements[elId]["eq_load"] = [0, w * L / 4, 5 * w * L ** 2 / 96, 0, w * L / 4, -5 * w * L ** 2 / 96];
+            this.add_eq_load(elId, [0, w * L / 4, 5 * w * L ** 2 / 96, 0, w * L / 4, -5 * w * L ** 2 / 96]);
         }
         else if (type === "point") {
-            const P = w;
-            const a = location || L / 2;
-            const b = L - a;
-
-            // FEMs (Actions on beam ends)
-            const M_start_fem = P * a * (b ** 2) / (L ** 2); // CCW +
-            const M_end_fem = -P * (a ** 2) * b / (L ** 2);  // CW - (so numeric negative)
-
-            const V_start_fem = P * (b ** 2) * (3 * a + b) / (L ** 3);
-            const V_end_fem = P * (a ** 2) * (a + 3 * b) / (L ** 3);
-
-            this.elements[elId]["eq_load"] = [
-                0,
-                V_start_fem,
-                M_start_fem,
-                0,
-                V_end_fem,
-                M_end_fem
-            ];
+            this.add_eq_load(elId, this.member_point_fef(elId, 0, w, location || L / 2));
         }
     }
 
+    /**
+     * Linearly varying load from w1 to w2 ([axial, transverse] in local axes), starting
+     * `startOffset` from the start node and stopping `endOffset` short of the end node.
+     * Uniform full-span transverse loads on flexural members keep the closed-form udl path.
+     */
+    add_trapezoidal_load(idStr: string, w1: number[], w2: number[], startOffset = 0, endOffset = 0) {
+        const elId = this.elemIdMap[idStr];
+        if (!elId) return;
+
+        const { length: L, tapered, I } = this.elements[elId];
+        const a = Math.max(0, startOffset);
+        const b = Math.min(L, L - endOffset);
+        if (b <= a) return;
+        this.add_span_load(elId, { a, b, w1, w2 });
+
+        if (w1[0] === 0 && w2[0] === 0 && w1[1] === w2[1] && a === 0 && b === L && !tapered && I !== 0) {
+            this.add_distributed_load(idStr, w1[1], "udl");
+            return;
+        }
+
+        // The integrand w(x)·N(x) is a quartic, so three Gauss points are exact
+        // (tapered members are not polynomial and take a composite rule)
+        const segments = tapered ? TAPER_SEGMENTS : 1;
+        const half = (b - a) / (2 * segments);
+        const fef = [0, 0, 0, 0, 0, 0];
+        for (let s = 0; s < segments; s++) {
+            const mid = a + (2 * s + 1) * half;
+            GAUSS_3.forEach(([xi, weight]) => {
+                const x = mid + half * xi;
+                const t = (x - a) / (b - a);
+                const [wx, wy] = [0, 1].map(k => (w1[k] + (w2[k] - w1[k]) * t) * weight * half);
+                this.member_point_fef(elId, wx, wy, x).forEach((v, i) => { fef[i] += v; });
+            });
+        }
+        this.add_eq_load(elId, fef);
+    }
+
+    // Point load p = [axial, transverse] in local axes at `location` from the start node (midspan if unset)
+    add_member_point_load(idStr: string, p: number[], location?: number) {
+        const elId = this.elemIdMap[idStr];
+        if (!elId) return;
+        const L = this.elements[elId]["length"];
+        this.add_span_load(elId, { a: location || L / 2, p });
+        this.add_eq_load(elId, this.member_point_fef(elId, p[0], p[1], location || L / 2));
+    }
+
+    /**
+     * Equivalent nodal loads of a point load at a from the start (tapered members integrate
+     * numerically). Truss members (I = 0) cannot develop end moments, so they take the
+     * simple-span end shears only.
+     */
+    member_point_fef(elId: number, Px: number, Py: number, a: number): number[] {
+        const { length, phi, tapered, I } = this.elements[elId];
+        if (tapered) return tapered.point_load_fef(Px, Py, a);
+        if (I === 0) return [Px * (1 - a / length), Py * (1 - a / length), 0, Px * a / length, Py * a / length, 0];
+        return point_load_fef(Px, Py, a, length, phi);
+    }
+
+    /**
+     * Resolves member load components [x, y] into local [axial, transverse] components.
+     * "global" components act along the global axes per unit member length; "projected"
+     * intensities are per unit of projected length (gx on the vertical, gy on the
+     * horizontal projection), as for snow on a sloped rafter.
+     */
+    member_load_to_local(idStr: string, load: number[], direction = "local") {
+        const elId = this.elemIdMap[idStr];
+        if (!elId || direction === "local") return load;
+
+        const { sine: s, cosine: c } = this.elements[elId];
+        let [gx, gy] = load;
+        if (direction === "projected") {
+            gx *= Math.abs(s);
+            gy *= Math.abs(c);
+        }
+        return [c * gx + s * gy, -s * gx + c * gy];
+    }
+
+    // Self-weight w per unit length in global −Y
+    add_self_weight(idStr: string, w: number) {
+        const elId = this.elemIdMap[idStr];
+        if (!elId || this.elements[elId]["type"] !== "frame") return;
+
+        const [wx, wy] = this.member_load_to_local(idStr, [0, -w], "global");
+        this.add_trapezoidal_load(idStr, [wx, wy], [wx, wy]);
+    }
+
+    /**
+     * Uniform temperature change dT and top-to-bottom gradient dTg (top = local +y face).
+     * Fully restrained, the member develops N = EAαΔT and M = EIαΔTg/h; the equivalent
+     * nodal loads are the opposite of those end actions.
+     */
+    add_thermal_load(idStr: string, dT: number, dTg: number) {
+        const elId = this.elemIdMap[idStr];
+        if (!elId || this.elements[elId]["type"] !== "frame") return;
+        const { E, A, I, alpha, depth } = this.elements[elId];
+        if (depth > 0) this.elements[elId]["thermal_curvature"] = (this.elements[elId]["thermal_curvature"] || 0) - alpha * dTg / depth;
+
+        const { tapered } = this.elements[elId];
+        if (tapered) {
+            this.add_eq_load(elId, tapered.strain_fef(alpha * dT, depth > 0 ? -alpha * dTg / depth : 0));
+            return;
+        }
+
+        const N = E * A * alpha * dT;
+        const M = depth > 0 ? E * I * alpha * dTg / depth : 0;
+        this.add_eq_load(elId, [-N, 0, M, N, 0, -M]);
+    }
+
+    // Several member loads on the same element superpose their equivalent nodal loads
+    add_eq_load(elId: number, load: number[]) {
+        const existing = this.elements[elId]["eq_load"] || [0, 0, 0, 0, 0, 0];
+        this.elements[elId]["eq_load"] = existing.map((v: number, i: number) => v + load[i]);
+    }
+
+    add_span_load(elId: number, load: SpanLoad) {
+        this.elements[elId]["span_loads"] = [...(this.elements[elId]["span_loads"] || []), load];
+    }
+
     calculate_element_stiffness_matrix(id: number) {
         const data = this.elements[id];
         if (data["type"] === "frame") {
-            const beam = new BeamElement(data["A"], data["E"], data["I"], data["length"], data["sine"], data["cosine"]);
-            const { k_local, k_global } = beam.beam_stiffness_matrix();
+            const beam = new BeamElement(data["A"], data["E"], data["I"], data["length"], data["sine"], data["cosine"], data["released"], data["phi"], data["tapered"]);
+            const { k_local, k_global } = beam.beam_stiffness_matrix(data["axial_force"] || 0);
             data["k_local"] = k_local;
-            return k_global;
+            return this.through_rigid_links(data, k_global);
         } else if (data["type"] === "spring") {
             const spring = new SpringElement(data["k"], data["sine"], data["cosine"]);
             const { k_local, k_global } = spring.spring_stiffness_matrix();
@@ -316,6 +899,12 @@ class Structure {
         throw new Error("Unknown element");
     }
 
+    // Element matrix (global axes) moved from the faces to the nodes: Bᵀ k B
+    through_rigid_links(el: any, k: number[][]) {
+        if (!el.rigid) return k;
+        return NP.matmul(NP.transpose(el.rigid), NP.matmul(k, el.rigid));
+    }
+
     get_dofs(node_id: number) {
         const start = (node_id - 1) * 3;
         return [start, start + 1, start + 2];
@@ -345,16 +934,48 @@ class Structure {
 
     assemble_structure_stiffness_matrix() {
         const size = this.nodeCount * 3;
-        this.K = NP.zeros(size, size) as number[][];
+        this.K = new SparseMatrix(size);
 
         for (const key in this.elements) {
             const el = this.elements[key];
-            const k_el = this.calculate_element_stiffness_matrix(el.id);
+            // Slack members keep their member stiffness (k_local) to check for re-activation
+            const k_global = this.calculate_element_stiffness_matrix(el.id);
+            if (el.slack) continue;
+            const k_el = this.to_nodal_axes(k_global, el.node_i, el.node_j);
             const dofs = [...this.get_dofs(el.node_i), ...this.get_dofs(el.node_j)];
-            NP.addToSubmatrix(this.K, k_el, dofs, dofs);
+            this.K.addSubmatrix(k_el, dofs);
+        }
+
+        // Support springs act along the nodal axes, so they go straight onto the diagonal
+        this.spring_dofs = [];
+        for (const key in this.nodes) {
+            const node = this.nodes[key];
+            if (!node.springs) continue;
+            this.get_dofs(node.id).forEach((dof, i) => {
+                const k = node.springs[i];
+                if (k > 0) {
+                    this.K.add(dof, dof, k);
+                    this.spring_dofs.push({ dof, k });
+                }
+            });
         }
     }
 
+    // Reverse Cuthill–McKee on the node connectivity graph keeps the skyline narrow
+    get_node_order() {
+        const adjacency: number[][] = Array.from({ length: this.nodeCount }, () => []);
+        for (const key in this.elements) {
+            const el = this.elements[key];
+            adjacency[el.node_i - 1].push(el.node_j - 1);
+            adjacency[el.node_j - 1].push(el.node_i - 1);
+        }
+        this.constraints.forEach(c => c.slaves.forEach(slave => {
+            adjacency[c.master - 1].push(slave - 1);
+            adjacency[slave - 1].push(c.master - 1);
+        }));
+        return reverseCuthillMcKee(adjacency.map(a => [...new Set(a)])).map(i => i + 1);
+    }
+
     assemble_load_vector() {
         const size = this.nodeCount * 3;
         this.node_load = NP.zeros(size) as number[];
@@ -371,54 +992,355 @@ class Structure {
         this.eq_node_load = NP.zeros(size) as number[];
         for (const key in this.elements) {
             const el = this.elements[key];
+            // Fixed-end forces of released members follow the stiffness condensation
+            // (repeating it is harmless: released entries are already zero)
+            if (el.eq_load && el.type === "frame" && el.released.length > 0) {
+                const beam = new BeamElement(el.A, el.E, el.I, el.length, el.sine, el.cosine, el.released, el.phi, el.tapered);
+                el.eq_load = beam.condense(beam.beam_local_stiffness_matrix(), el.eq_load).f;
+            }
             if (el.eq_load) {
+                // Equivalent loads are in member axes: f_global = Tᵀ f_local
+                let eq_global = NP.matmul(NP.transpose(transformation_matrix(el.sine, el.cosine)), el.eq_load);
+                if (el.rigid) eq_global = NP.matmul(NP.transpose(el.rigid), eq_global);
                 const dofs = [...this.get_dofs(el.node_i), ...this.get_dofs(el.node_j)];
                 for (let i = 0; i < 6; i++) {
-                    this.eq_node_load[dofs[i]] += el.eq_load[i];
+                    this.eq_node_load[dofs[i]] += eq_global[i];
                 }
             }
         }
 
+        // The equations are written in nodal axes
+        this.node_load = this.rotate_vector(this.node_load, false);
+        this.eq_node_load = this.rotate_vector(this.eq_node_load, false);
         this.eff_node_load = this.node_load.map((v, i) => v + this.eq_node_load[i]);
+
+        // Imposed support displacements (already in nodal axes)
+        this.prescribed_displacements = NP.zeros(size) as number[];
+        for (const key in this.nodes) {
+            const node = this.nodes[key];
+            if (!node.prescribed) continue;
+            const dofs = this.get_dofs(node.id);
+            dofs.forEach((dof, i) => { this.prescribed_displacements[dof] = node.prescribed[i]; });
+        }
     }
 
     find_displacements() {
+        this.factor_stiffness();
+        if (this.singular_dofs.length === 0) this.solve_displacements();
+    }
+
+    // Removes all applied loads so another load case can be assembled on the same stiffness
+    clear_loads() {
+        for (const key in this.nodes) {
+            delete this.nodes[key].load;
+            delete this.nodes[key].prescribed;
+        }
+        for (const key in this.elements) {
+            delete this.elements[key].eq_load;
+            delete this.elements[key].span_loads;
+            delete this.elements[key].thermal_curvature;
+        }
+    }
+
+    /**
+     * Numbers the equations and factorizes K once. Mechanisms are recorded in
+     * singular_dofs / mechanism_modes; the factor is then reused by solve_displacements
+     * for every load vector assembled afterwards.
+     */
+    factor_stiffness() {
         this.get_free_dofs();
 
-        this.K_reduced = NP.ix_(this.K, this.free_dof, this.free_dof);
-        this.node_load_reduced = this.free_dof.map(i => this.eff_node_load[i]);
+        const isFree = new Uint8Array(this.nodeCount * 3);
+        this.free_dof.forEach(i => { isFree[i] = 1; });
 
-        if (this.free_dof.length === 0) {
-            this.free_dof_displacements = [];
-        } else {
-            try {
-                this.free_dof_displacements = NP.solve(this.K_reduced, this.node_load_reduced);
-            } catch (e) {
-                throw new Error("Structure is unstable.");
-            }
+        const connected = new Set<number>();
+        for (const key in this.elements) {
+            connected.add(this.elements[key].node_i);
+            connected.add(this.elements[key].node_j);
         }
+        this.constraints.forEach(c => [c.master, ...c.slaves].forEach(node => connected.add(node)));
+
+        // Slave DOFs of constraints follow other DOFs and get no equation of their own
+        const K = this.condense_constraints(this.K);
+        const load = this.condense_vector(this.eff_node_load);
+
+        // Nodes without members and unloaded rotations without any rotational
+        // stiffness (truss joints, fully hinged joints) are not real DOFs: they stay at zero.
+        // Every other free DOF goes to the solver, so a missing stiffness shows up as a mechanism.
+        this.equation_order = [];
+        this.get_node_order().forEach(nodeId => {
+            if (!connected.has(nodeId)) return;
+            this.get_dofs(nodeId).forEach((dof, local) => {
+                if (!isFree[dof] || this.slave_dofs.has(dof)) return;
+                if (local === 2 && K.get(dof, dof) === 0 && load[dof] === 0) return;
+                this.equation_order.push(dof);
+            });
+        });
 
+        this.singular_dofs = [];
+        this.mechanism_modes = [];
+        this.K_factor = null;
+        if (this.equation_order.length === 0) return;
+
+        this.K_factor = SkylineMatrix.fromSparse(K, this.equation_order);
+        this.K_factor.factor();
+
+        const factor = this.K_factor;
+        if (factor.singular.length > 0) {
+            this.singular_dofs = factor.singular.map(k => this.equation_order[k]);
+            this.mechanism_modes = factor.singular.slice(0, MAX_MECHANISM_MODES).map(k => this.expand_equations(factor.nullVector(k)));
+        }
+    }
+
+    // Solves the current load vector with the factorized stiffness
+    solve_displacements() {
+        this.node_load_reduced = this.free_dof.map(i => this.eff_node_load[i]);
         this.node_displacements = new Array(this.nodeCount * 3).fill(0);
-        this.free_dof.forEach((dofIdx, i) => {
-            this.node_displacements[dofIdx] = this.free_dof_displacements[i];
+
+        // Known displacements: rigidly restrained DOFs take the imposed value, support springs
+        // get their base moved, i.e. an extra load k·δ (displacements on free DOFs are ignored)
+        const rhs = [...this.eff_node_load];
+        this.fix_dof.forEach(dof => { this.node_displacements[dof] = this.prescribed_displacements[dof]; });
+        this.spring_dofs.forEach(({ dof, k }) => { rhs[dof] += k * this.prescribed_displacements[dof]; });
+        // Slave DOFs tied to restrained DOFs move with them
+        this.apply_constraints(this.node_displacements);
+        if (this.node_displacements.some(v => v !== 0)) {
+            // K_ff u_f = F_f − K_fs u_s
+            const Ku_s = this.K.multiply(this.node_displacements);
+            this.free_dof.forEach(dof => { rhs[dof] -= Ku_s[dof]; });
+        }
+
+        if (this.K_factor) {
+            const reduced = this.condense_vector(rhs);
+            const u = this.K_factor.solve(this.equation_order.map(i => reduced[i]));
+            this.equation_order.forEach((dofIdx, k) => {
+                this.node_displacements[dofIdx] = u[k];
+            });
+        }
+        this.apply_constraints(this.node_displacements);
+        this.nodal_axes_displacements = this.node_displacements;
+        this.node_displacements = this.rotate_vector(this.nodal_axes_displacements, true);
+        this.free_dof_displacements = this.free_dof.map(i => this.node_displacements[i]);
+    }
+
+    /**
+     * Axial forces (tension positive) that enter the geometric stiffness of the frame
+     * members, averaged over both ends to allow for axial member loads.
+     * Without forces the members go back to their first-order stiffness.
+     */
+    set_axial_forces(forces?: ResultSet["memberForces"]) {
+        for (const key in this.elements) {
+            const el = this.elements[key];
+            if (el.type !== "frame") continue;
+            const f = forces?.[el.idStr];
+            el.axial_force = f ? (f.end.fx - f.start.fx) / 2 : 0;
+        }
+    }
+
+    // Geometric stiffness (nodal axes) of the axial forces set on the frame members
+    assemble_geometric_stiffness_matrix() {
+        const Kg = new SparseMatrix(this.nodeCount * 3);
+        for (const key in this.elements) {
+            const el = this.elements[key];
+            if (el.type !== "frame" || !el.axial_force || el.slack) continue;
+            const beam = new BeamElement(el.A, el.E, el.I, el.length, el.sine, el.cosine, el.released, el.phi, el.tapered);
+            const t = transformation_matrix(el.sine, el.cosine);
+            const kg_local = beam.condense_companion(beam.beam_geometric_stiffness_matrix(el.axial_force));
+            const kg = this.to_nodal_axes(this.through_rigid_links(el, NP.matmul(NP.transpose(t), NP.matmul(kg_local, t))), el.node_i, el.node_j);
+            Kg.addSubmatrix(kg, [...this.get_dofs(el.node_i), ...this.get_dofs(el.node_j)]);
+        }
+        return Kg;
+    }
+
+    // Member and nodal masses (nodal axes)
+    assemble_mass_matrix(type: MassType) {
+        const M = new SparseMatrix(this.nodeCount * 3);
+        for (const key in this.elements) {
+            const el = this.elements[key];
+            if (el.type !== "frame" || !el.mass) continue;
+            const beam = new BeamElement(el.A, el.E, el.I, el.length, el.sine, el.cosine, el.released, el.phi, el.tapered);
+            const t = transformation_matrix(el.sine, el.cosine);
+            const m_local = beam.condense_companion(beam.beam_mass_matrix(el.mass, type));
+            const m_el = this.to_nodal_axes(this.through_rigid_links(el, NP.matmul(NP.transpose(t), NP.matmul(m_local, t))), el.node_i, el.node_j);
+            M.addSubmatrix(m_el, [...this.get_dofs(el.node_i), ...this.get_dofs(el.node_j)]);
+        }
+        for (const key in this.nodes) {
+            const node = this.nodes[key];
+            if (!node.mass) continue;
+            this.get_dofs(node.id).forEach((dof, i) => M.add(dof, dof, node.mass[i]));
+        }
+        return M;
+    }
+
+    // [independent DOF, coefficient] pairs a DOF follows: itself unless a constraint ties it
+    dof_terms(dof: number): [number, number][] {
+        return this.slave_dofs.get(dof) ?? [[dof, 1]];
+    }
+
+    // Tᵀ A T: rows and columns of slave DOFs are added onto the DOFs they follow
+    condense_constraints(A: SparseMatrix): SparseMatrix {
+        if (this.slave_dofs.size === 0) return A;
+        const condensed = new SparseMatrix(A.n);
+        A.rows.forEach((row, i) => row.forEach((v, j) => {
+            this.dof_terms(i).forEach(([I, a]) => this.dof_terms(j).forEach(([J, b]) => condensed.add(I, J, a * b * v)));
+        }));
+        return condensed;
+    }
+
+    // Tᵀ f for a full-length vector (nodal axes): slave entries move onto the DOFs they follow
+    condense_vector(f: ArrayLike<number>): number[] {
+        const condensed = Array.from(f);
+        this.slave_dofs.forEach((terms, s) => {
+            terms.forEach(([m, c]) => { condensed[m] += c * f[s]; });
+            condensed[s] = 0;
         });
+        return condensed;
     }
 
-    find_reactions() {
-        if (this.fix_dof.length === 0) {
-            this.reactions = [];
-            return;
+    // Sets the slave DOFs of a full-length vector from the DOFs they follow
+    apply_constraints(u: number[]) {
+        this.slave_dofs.forEach((terms, s) => { u[s] = terms.reduce((sum, [m, c]) => sum + c * u[m], 0); });
+        return u;
+    }
+
+    // Full-length vector in nodal axes from values in equation order, slave DOFs included
+    from_equations(values: ArrayLike<number>) {
+        const full = new Array(this.nodeCount * 3).fill(0);
+        this.equation_order.forEach((dof, i) => { full[dof] = values[i]; });
+        return this.apply_constraints(full);
+    }
+
+    // Tᵀ A T x for x in equation order (A a full matrix in nodal axes, e.g. K_g or M)
+    multiply_equations(A: SparseMatrix, x: ArrayLike<number>): Float64Array {
+        const y = this.condense_vector(A.multiply(this.from_equations(x)));
+        return Float64Array.from(this.equation_order, dof => y[dof]);
+    }
+
+    // Full-length vector in global axes from values in equation order
+    expand_equations(values: ArrayLike<number>) {
+        return this.rotate_vector(this.from_equations(values), true);
+    }
+
+    // Takes displacements (equation order, nodal axes) found outside solve_displacements, e.g. by time stepping
+    set_displacements(values: ArrayLike<number>) {
+        this.nodal_axes_displacements = this.from_equations(values);
+        this.node_displacements = this.rotate_vector(this.nodal_axes_displacements, true);
+        this.free_dof_displacements = this.free_dof.map(i => this.node_displacements[i]);
+    }
+
+    /**
+     * P-Delta iterations on the current load vector, starting from the axial forces set
+     * on the members: K is re-assembled with their geometric stiffness and solved again
+     * until the axial forces settle. Returns null once K + K_g stops being positive
+     * definite, i.e. the axial loads exceed the buckling load.
+     */
+    solve_p_delta() {
+        for (let iterations = 1; iterations <= MAX_P_DELTA_ITERATIONS; iterations++) {
+            this.assemble_structure_stiffness_matrix();
+            this.factor_stiffness();
+            if (this.singular_dofs.length > 0) return null;
+            this.solve_displacements();
+
+            let change = 0;
+            let largest = 0;
+            for (const key in this.elements) {
+                const el = this.elements[key];
+                if (el.type !== "frame") continue;
+                const f = getElementForces(this, el.id);
+                const N = (f[3] - f[0]) / 2;
+                change = Math.max(change, Math.abs(N - el.axial_force));
+                largest = Math.max(largest, Math.abs(N));
+                el.axial_force = N;
+            }
+            if (change <= P_DELTA_TOLERANCE * largest) return { iterations, converged: true };
         }
+        return { iterations: MAX_P_DELTA_ITERATIONS, converged: false };
+    }
 
-        const K_fix = NP.ix_(this.K, this.fix_dof, Array.from({ length: this.nodeCount * 3 }, (_, i) => i));
-        const KU = NP.matmul(K_fix, this.node_displacements) as number[];
+    /**
+     * Active-set iterations on the displacements just solved: tension-only members in
+     * compression and compression-only members in tension go slack, slack members that
+     * would be stretched (or squeezed) again come back, and the loads are solved again
+     * until no member changes. Member loads on slack members still reach the nodes.
+     * Returns null once the slack members leave a mechanism.
+     */
+    solve_active_set(): ActiveSetInfo | null {
+        const governed = Object.values(this.elements).filter((el: any) => el.behavior) as any[];
+        const slackMembers = () => governed.filter(el => el.slack).map(el => el.idStr as string);
+
+        for (let iterations = 1; iterations <= MAX_ACTIVE_SET_ITERATIONS; iterations++) {
+            let largest = 0;
+            for (const key in this.elements) {
+                const f = getElementForces(this, this.elements[key].id);
+                largest = Math.max(largest, Math.abs(f[3] - f[0]) / 2);
+            }
 
-        const eq_fixed = this.fix_dof.map(i => this.eq_node_load[i]);
-        this.reactions = KU.map((v, i) => v - eq_fixed[i]);
+            // Slack members are judged by the force they would carry if they were active
+            let changed = false;
+            governed.forEach(el => {
+                const f = getElementForces(this, el.id, true);
+                const N = (f[3] - f[0]) / 2;
+                const slack = el.behavior === "tension"
+                    ? N < -ACTIVE_SET_TOLERANCE * largest
+                    : N > ACTIVE_SET_TOLERANCE * largest;
+                if (slack !== !!el.slack) changed = true;
+                el.slack = slack;
+            });
+            if (!changed) return { iterations, converged: true, slackMembers: slackMembers() };
+
+            this.assemble_structure_stiffness_matrix();
+            this.factor_stiffness();
+            if (this.singular_dofs.length > 0) return null;
+            this.solve_displacements();
+        }
+        return { iterations: MAX_ACTIVE_SET_ITERATIONS, converged: false, slackMembers: slackMembers() };
+    }
+
+    find_reactions() {
+        this.find_constraint_forces();
+        // Nodal loads applied straight onto a restrained DOF go into the support as well
+        this.reactions = this.fix_dof.map(i => this.K.rowDot(i, this.nodal_axes_displacements) - this.eff_node_load[i] - this.constraint_forces[i]);
+        // The spring pushes back against the displacement of its node
+        this.spring_reactions = this.spring_dofs.map(({ dof, k }) => -k * (this.nodal_axes_displacements[dof] - this.prescribed_displacements[dof]));
+    }
+
+    /**
+     * Forces the constraints exert on the nodes (nodal axes): at a slave DOF whatever the members,
+     * springs and loads leave unbalanced, and on the DOFs it follows the same force carried back
+     * through T, so the constraint forces do no work on any displacement the constraints allow.
+     */
+    find_constraint_forces() {
+        const forces = new Array(this.nodeCount * 3).fill(0);
+        if (this.slave_dofs.size > 0) {
+            const springs = new Map(this.spring_dofs.map(({ dof, k }) => [dof, k]));
+            this.slave_dofs.forEach((_, s) => {
+                const base = (springs.get(s) ?? 0) * this.prescribed_displacements[s];
+                forces[s] = this.K.rowDot(s, this.nodal_axes_displacements) - this.eff_node_load[s] - base;
+            });
+            this.slave_dofs.forEach((terms, s) => terms.forEach(([m, c]) => { forces[m] -= c * forces[s]; }));
+        }
+        this.constraint_forces = forces;
     }
 }
 
-function getElementForces(structure: Structure, elId: number) {
+// Displacements of the member ends (the faces of rigid end zones) in member axes
+function localEndDisplacements(structure: Structure, elId: number): number[] {
+    const data = structure.elements[elId];
+    const t = transformation_matrix(data["sine"], data["cosine"]);
+
+    const start_dofs = structure.get_dofs(data["node_i"]);
+    const end_dofs = structure.get_dofs(data["node_j"]);
+    let d_global = [
+        ...start_dofs.map(i => structure.node_displacements[i]),
+        ...end_dofs.map(i => structure.node_displacements[i])
+    ];
+    if (data["rigid"]) d_global = NP.matmul(data["rigid"], d_global);
+
+    return NP.matmul(t, d_global) as number[];
+}
+
+// End forces in member axes (at the faces of rigid end zones); a slack member only holds its own member loads unless asActive
+function getElementForces(structure: Structure, elId: number, asActive = false) {
     const data = structure.elements[elId];
     let k = data["k_local"];
 
@@ -429,20 +1351,936 @@ function getElementForces(structure: Structure, elId: number) {
         for (let r = 0; r < 4; r++) for (let c = 0; c < 4; c++) k[map[r]][map[c]] = k_raw[r][c];
     }
 
-    const t = transformation_matrix(data["sine"], data["cosine"]);
+    const d_local = localEndDisplacements(structure, elId);
+    const kd = data["slack"] && !asActive ? NP.zeros(6) as number[] : NP.matmul(k, d_local);
+    const eq = data["eq_load"] || [0, 0, 0, 0, 0, 0];
 
-    const start_dofs = structure.get_dofs(data["node_i"]);
-    const end_dofs = structure.get_dofs(data["node_j"]);
-    const d_global = [
-        ...start_dofs.map(i => structure.node_displacements[i]),
-        ...end_dofs.map(i => structure.node_displacements[i])
+    return kd.map((v: number, i: number) => v - eq[i]);
+}
+
+function applyLoads(structure: Structure, loads: Load[]) {
+    loads.forEach(l => {
+        if (l.type === LoadType.NODAL_POINT && l.nodeId) {
+            structure.add_node_load(l.nodeId, [l.magnitudeX, l.magnitudeY, l.moment || 0]);
+        } else if (l.type === LoadType.SUPPORT_DISPLACEMENT && l.nodeId) {
+            structure.add_prescribed_displacement(l.nodeId, [l.magnitudeX, l.magnitudeY, l.moment || 0]);
+        } else if (l.memberId) {
+            const direction = l.direction || 'local';
+            if (l.type === LoadType.MEMBER_DISTRIBUTED) {
+                const w1 = structure.member_load_to_local(l.memberId, [l.magnitudeX, l.magnitudeY], direction);
+                const w2 = structure.member_load_to_local(l.memberId, [l.endMagnitudeX ?? l.magnitudeX, l.endMagnitudeY ?? l.magnitudeY], direction);
+                structure.add_trapezoidal_load(l.memberId, w1, w2, l.startOffset || 0, l.endOffset || 0);
+            } else if (l.type === LoadType.MEMBER_POINT) {
+                // A concentrated load has no projected length, so projected acts as global
+                const p = structure.member_load_to_local(l.memberId, [l.magnitudeX, l.magnitudeY], direction === 'local' ? 'local' : 'global');
+                structure.add_member_point_load(l.memberId, p, l.location);
+            } else if (l.type === LoadType.MEMBER_THERMAL) {
+                structure.add_thermal_load(l.memberId, l.deltaT || 0, l.temperatureGradient || 0);
+            }
+        }
+    });
+}
+
+// Copy of a load with every magnitude multiplied by a load factor
+function scaleLoad(l: Load, factor: number): Load {
+    const scale = (v?: number) => v === undefined ? undefined : v * factor;
+    return {
+        ...l,
+        magnitudeX: l.magnitudeX * factor,
+        magnitudeY: l.magnitudeY * factor,
+        moment: scale(l.moment),
+        endMagnitudeX: scale(l.endMagnitudeX),
+        endMagnitudeY: scale(l.endMagnitudeY),
+        deltaT: scale(l.deltaT),
+        temperatureGradient: scale(l.temperatureGradient)
+    };
+}
+
+function applySelfWeight(structure: Structure, model: StructureModel, factor = 1): SelfWeightSummary | undefined {
+    if (!model.selfWeight) return undefined;
+    const g = (model.gravity ?? 9.81) * factor;
+    const summary: SelfWeightSummary = { members: {}, total: 0 };
+    model.members.forEach(m => {
+        if (m.type === 'spring' || !m.density) return;
+        const w = m.density * g * (m.type !== 'truss' && m.taper ? meanArea(m) : (m.area || 0.01));
+        structure.add_self_weight(m.id, w);
+        summary.members[m.id] = w;
+        summary.total += w * structure.elements[structure.elemIdMap[m.id]].length;
+    });
+    return summary;
+}
+
+// Displacements, reactions and member end forces of the current solution, plus the constraint
+// forces of static ones (dynamic responses have no inertia forces in the load vector)
+function collectResults(structure: Structure, dynamic = false): ResultSet {
+    const displacements: ResultSet["displacements"] = {};
+    const memberForces: ResultSet["memberForces"] = {};
+
+    for (let i = 1; i <= structure.nodeCount; i++) {
+        const node = structure.nodes[i];
+        const dofs = structure.get_dofs(i);
+        displacements[node.idStr] = {
+            x: structure.node_displacements[dofs[0]],
+            y: structure.node_displacements[dofs[1]],
+            rotation: structure.node_displacements[dofs[2]]
+        };
+    }
+
+    const reactions: { [id: string]: SupportReaction } = {};
+    const supportDofs = [...structure.fix_dof, ...structure.spring_dofs.map(s => s.dof)];
+    const supportReactions = [...structure.reactions, ...structure.spring_reactions];
+
+    supportDofs.forEach((globalDofIdx, i) => {
+        const nodeIdx = Math.floor(globalDofIdx / 3) + 1;
+        const localDof = globalDofIdx % 3;
+        const nodeStr = structure.nodes[nodeIdx].idStr;
+        const val = supportReactions[i];
+
+        if (!reactions[nodeStr]) reactions[nodeStr] = { fx: 0, fy: 0, moment: 0 };
+        if (localDof === 0) reactions[nodeStr].fx = val;
+        if (localDof === 1) reactions[nodeStr].fy = val;
+        if (localDof === 2) reactions[nodeStr].moment = val;
+    });
+
+    // Reactions were found in nodal axes; report inclined supports in both systems
+    for (const nodeStr in reactions) {
+        const R = structure.get_nodal_rotation(structure.get_id(nodeStr));
+        if (!R) continue;
+        const local = reactions[nodeStr];
+        reactions[nodeStr] = {
+            fx: R[0][0] * local.fx + R[0][1] * local.fy,
+            fy: R[1][0] * local.fx + R[1][1] * local.fy,
+            moment: local.moment,
+            local
+        };
+    }
+
+    for (const key in structure.elements) {
+        const el = structure.elements[key];
+        const forces = getElementForces(structure, el.id);
+        memberForces[el.idStr] = {
+            start: { fx: forces[0], fy: forces[1], moment: forces[2] },
+            end: { fx: forces[3], fy: forces[4], moment: forces[5] }
+        };
+
+        // Face forces carried through the rigid links to the nodes, still in member axes
+        if (el.rigid) {
+            const t = transformation_matrix(el.sine, el.cosine);
+            const atNode = NP.matmul(t, NP.matmul(NP.transpose(el.rigid), NP.matmul(NP.transpose(t), forces)));
+            memberForces[el.idStr].atNodes = {
+                start: { fx: atNode[0], fy: atNode[1], moment: atNode[2] },
+                end: { fx: atNode[3], fy: atNode[4], moment: atNode[5] }
+            };
+        }
+    }
+
+    if (structure.constraints.length === 0 || dynamic) return { displacements, reactions, memberForces };
+
+    // Constrained nodes never have inclined supports, so nodal axes are global here
+    const constraintForces: { [nodeId: string]: ForceVector } = {};
+    structure.constraints.forEach(c => [c.master, ...c.slaves].forEach(node => {
+        const [fx, fy, moment] = structure.get_dofs(node).map(d => structure.constraint_forces[d]);
+        constraintForces[structure.nodes[node].idStr] = { fx, fy, moment };
+    }));
+    return { displacements, reactions, memberForces, constraintForces };
+}
+
+// Merges the numeric leaves of result sets that share the same layout (superposition, envelopes)
+function mergeResults(sets: any[], merge: (values: number[]) => number): any {
+    const first = sets[0];
+    if (typeof first === 'number') return merge(sets);
+    const out: any = {};
+    for (const key in first) out[key] = mergeResults(sets.map(s => s[key]), merge);
+    return out;
+}
+
+// In-place counterpart of mergeResults for running extremes over many result sets
+function accumulateResults(target: any, source: any, merge: (a: number, b: number) => number) {
+    for (const key in source) {
+        if (typeof source[key] === 'number') target[key] = merge(target[key], source[key]);
+        else accumulateResults(target[key], source[key], merge);
+    }
+}
+
+// Re-solves the loads currently applied with P-Delta and compares with their first-order results
+function runPDelta(structure: Structure, firstOrder: ResultSet): { results: ResultSet; info: PDeltaInfo } | null {
+    structure.set_axial_forces(firstOrder.memberForces);
+    const outcome = structure.solve_p_delta();
+    if (!outcome) return null;
+    structure.find_reactions();
+    const results = collectResults(structure);
+
+    // Largest second- to first-order ratio among the values that matter: a value under 1%
+    // of the first-order maximum (e.g. axial shortening next to sway) is not considered
+    const amplification = (pairs: [number, number][]) => {
+        const largest = Math.max(0, ...pairs.map(([, first]) => first));
+        const ratios = pairs.filter(([, first]) => first > 0 && first >= 0.01 * largest).map(([second, first]) => second / first);
+        return ratios.length > 0 ? Math.max(...ratios) : 1;
+    };
+
+    const translations: [number, number][] = [];
+    for (const id in firstOrder.displacements) {
+        const [d1, d2] = [firstOrder.displacements[id], results.displacements[id]];
+        translations.push([Math.abs(d2.x), Math.abs(d1.x)], [Math.abs(d2.y), Math.abs(d1.y)]);
+    }
+
+    const endMoment = (set: ResultSet, id: string) => Math.max(Math.abs(set.memberForces[id].start.moment), Math.abs(set.memberForces[id].end.moment));
+    const moments = Object.keys(firstOrder.memberForces).map(id => [id, endMoment(results, id), endMoment(firstOrder, id)] as const);
+    const maxMoment = Math.max(0, ...moments.map(([, , first]) => first));
+    const memberAmplification: PDeltaInfo["memberAmplification"] = {};
+    moments.forEach(([id, second, first]) => {
+        if (first > 1e-9 * maxMoment) memberAmplification[id] = second / first;
+    });
+
+    return {
+        results,
+        info: {
+            ...outcome,
+            displacementAmplification: amplification(translations),
+            momentAmplification: amplification(moments.map(([, second, first]) => [second, first])),
+            memberAmplification,
+            firstOrder
+        }
+    };
+}
+
+function maxDiagonal(A: SparseMatrix) {
+    return A.rows.reduce((max, row, dof) => Math.max(max, Math.abs(row.get(dof) || 0)), 0);
+}
+
+/**
+ * Critical load factors of the reference axial forces, (K + λK_g) φ = 0, solved as
+ * −K_g φ = (1/λ) K φ on the factorized first-order stiffness. Only positive factors
+ * (the loads as applied, not reversed) are returned.
+ */
+function runBuckling(structure: Structure, reference: ResultSet, count: number): Omit<BucklingResults, 'loadCaseId'> {
+    const factor = structure.K_factor;
+    if (!factor) return { modes: [], converged: true };
+
+    structure.set_axial_forces(reference.memberForces);
+    const Kg = structure.assemble_geometric_stiffness_matrix();
+    structure.set_axial_forces();
+
+    // A genuine mode has 1/λ far above K_g/K (the slenderness enters squared)
+    const ratio = maxDiagonal(Kg) / maxDiagonal(structure.K);
+    if (!(ratio > 0)) return { modes: [], converged: true };
+
+    const eig = subspaceIteration({
+        n: structure.equation_order.length,
+        minimum: 1e-8 * ratio,
+        solveA: b => factor.solve(b),
+        multiplyB: x => structure.multiply_equations(Kg, x).map(v => -v)
+    }, count);
+
+    return {
+        modes: eig.values.map((mu, i) => ({
+            loadFactor: 1 / mu,
+            shape: normalizedShape(structure, structure.expand_equations(eig.vectors[i]))
+        })),
+        converged: eig.converged
+    };
+}
+
+// Vibration eigenpairs μ = 1/ω² of M φ = μ K φ on the factorized stiffness (null without mass);
+// the eigenvectors are K-normalized, so φᵀMφ = 1/ω²
+function vibrationEigen(structure: Structure, M: SparseMatrix, count: number) {
+    const factor = structure.K_factor;
+    const ratio = maxDiagonal(M) / maxDiagonal(structure.K);
+    if (!factor || !(ratio > 0)) return null;
+
+    return subspaceIteration({
+        n: structure.equation_order.length,
+        minimum: 1e-8 * ratio,
+        solveA: b => factor.solve(b),
+        multiplyB: x => structure.multiply_equations(M, x)
+    }, count);
+}
+
+// Influence vector r of a unit ground motion along a global direction and M r, in nodal axes and equation order
+function groundInfluence(structure: Structure, M: SparseMatrix, direction: 'x' | 'y') {
+    const r = new Array(structure.nodeCount * 3).fill(0);
+    const component = direction === 'y' ? 1 : 0;
+    for (let i = 1; i <= structure.nodeCount; i++) r[structure.get_dofs(i)[component]] = 1;
+    const r_nodal = structure.rotate_vector(r, false);
+    const Mr = structure.condense_vector(M.multiply(r_nodal));
+    const order = structure.equation_order;
+    return { r: order.map(dof => r_nodal[dof]), Mr: order.map(dof => Mr[dof]) };
+}
+
+/**
+ * Natural vibration modes, K φ = ω² M φ, solved as M φ = (1/ω²) K φ on the factorized
+ * first-order stiffness. Participation factors use the mass-normalized modes.
+ */
+function runModal(structure: Structure, count: number, massType: MassType): ModalResults {
+    const M = structure.assemble_mass_matrix(massType);
+    const eig = vibrationEigen(structure, M, count);
+    if (!eig) return { massType, modes: [], totalMass: { x: 0, y: 0 }, converged: true };
+
+    // Unit ground motion along global X / Y: Γ = φᵀ M r
+    const [Mr_x, Mr_y] = (['x', 'y'] as const).map(direction => groundInfluence(structure, M, direction));
+
+    return {
+        massType,
+        modes: eig.values.map((mu, i) => {
+            // Eigenvectors come back K-normalized, so φᵀMφ = 1/ω²
+            const omega = 1 / Math.sqrt(mu);
+            const participation = { x: dot(eig.vectors[i], Mr_x.Mr) * omega, y: dot(eig.vectors[i], Mr_y.Mr) * omega };
+            return {
+                circularFrequency: omega,
+                frequency: omega / (2 * Math.PI),
+                period: 2 * Math.PI / omega,
+                shape: normalizedShape(structure, structure.expand_equations(eig.vectors[i])),
+                participation,
+                effectiveMass: { x: participation.x ** 2, y: participation.y ** 2 }
+            };
+        }),
+        totalMass: { x: dot(Mr_x.r, Mr_x.Mr), y: dot(Mr_y.r, Mr_y.Mr) },
+        converged: eig.converged
+    };
+}
+
+/**
+ * Peak response to a design spectrum: each mode responds with Γ Sa(T) / ω² along its
+ * mass-normalized shape, and every displacement, reaction and member force is combined
+ * over the modes by SRSS or CQC. Base shear is combined from the modal base shears.
+ */
+function runResponseSpectrum(structure: Structure, settings: ResponseSpectrumSettings): ResponseSpectrumResults {
+    const combination = settings.combination ?? 'cqc';
+    const M = structure.assemble_mass_matrix(settings.massType ?? 'consistent');
+    const eig = vibrationEigen(structure, M, settings.modes ?? DEFAULT_SPECTRUM_MODES);
+    const { r, Mr } = groundInfluence(structure, M, settings.direction);
+    const totalMass = dot(r, Mr);
+    const empty = { displacements: {}, reactions: {}, memberForces: {} };
+    if (!eig || eig.values.length === 0) {
+        return { direction: settings.direction, combination, modes: [], totalMass, response: empty, baseShear: 0, converged: true };
+    }
+
+    // The modal responses carry no loads
+    structure.clear_loads();
+    structure.assemble_load_vector();
+
+    const omegas = eig.values.map(mu => 1 / Math.sqrt(mu));
+    const responses: ResultSet[] = [];
+    const modes = omegas.map((omega, i) => {
+        const period = 2 * Math.PI / omega;
+        const participation = dot(eig.vectors[i], Mr) * omega;
+        const Sa = spectralAcceleration(settings, period);
+        // K-normalized φ = ψ / ω, so the peak Γ Sa / ω² ψ is Γ Sa / ω φ
+        structure.set_displacements(eig.vectors[i].map(v => v * participation * Sa / omega));
+        structure.find_reactions();
+        const response = collectResults(structure, true);
+        responses.push(response);
+        const baseShear = Object.values(response.reactions).reduce((sum, R) => sum + (settings.direction === 'y' ? R.fy : R.fx), 0);
+        return { period, spectralAcceleration: Sa, participation, effectiveMass: participation ** 2, baseShear };
+    });
+
+    const xi = settings.dampingRatio ?? DEFAULT_DAMPING_RATIO;
+    const rho = omegas.map((wi, i) => omegas.map((wj, j) => combination === 'cqc' ? cqcCorrelation(wi, wj, xi) : i === j ? 1 : 0));
+    const combine = (values: number[]) => {
+        let sum = 0;
+        values.forEach((vi, i) => values.forEach((vj, j) => { sum += rho[i][j] * vi * vj; }));
+        return Math.sqrt(Math.max(sum, 0));
+    };
+
+    return {
+        direction: settings.direction,
+        combination,
+        modes,
+        totalMass,
+        response: mergeResults(responses, combine),
+        baseShear: combine(modes.map(m => m.baseShear)),
+        converged: eig.converged
+    };
+}
+
+/**
+ * Internal forces at x along a member from its start end forces and the member loads acting
+ * on it (local axes): axial force (tension +), shear and moment (sagging +). A point load at x
+ * counts only on the far side of the section (`after`).
+ */
+function sectionForces(start: ForceVector, x: number, loads: SpanLoad[], after = false): ForceVector {
+    let N = -start.fx;
+    let V = start.fy;
+    let M = -start.moment + start.fy * x;
+    loads.forEach(load => {
+        if (load.a > x || (load.a === x && !after)) return;
+        if ('p' in load) {
+            N -= load.p[0];
+            V += load.p[1];
+            M += load.p[1] * (x - load.a);
+            return;
+        }
+        // Resultant F and first moment S = ∫ s·w ds of the loaded length up to the section
+        const { a, b, w1, w2 } = load;
+        const l = Math.min(x, b) - a;
+        const resultant = (k: number) => {
+            const slope = (w2[k] - w1[k]) / (b - a);
+            const F = w1[k] * l + slope * l ** 2 / 2;
+            return { F, S: a * F + w1[k] * l ** 2 / 2 + slope * l ** 3 / 3 };
+        };
+        const axial = resultant(0);
+        const transverse = resultant(1);
+        N -= axial.F;
+        V += transverse.F;
+        M += x * transverse.F - transverse.S;
+    });
+    return { fx: N, fy: V, moment: M };
+}
+
+// Real roots of c0 + c1·t + c2·t² strictly inside (0, h)
+function quadraticRoots(c0: number, c1: number, c2: number, h: number, tolerance: number): number[] {
+    let roots: number[];
+    if (Math.abs(c2) * h ** 2 <= tolerance) {
+        roots = Math.abs(c1) * h > tolerance ? [-c0 / c1] : [];
+    } else {
+        const disc = c1 ** 2 - 4 * c2 * c0;
+        roots = disc < 0 ? [] : [(-c1 - Math.sqrt(disc)) / (2 * c2), (-c1 + Math.sqrt(disc)) / (2 * c2)];
+    }
+    return roots.filter(t => t > 1e-9 * h && t < h * (1 - 1e-9));
+}
+
+/**
+ * Internal forces and transverse deflection along a member under the loads currently applied,
+ * at `count` equally spaced stations, both sides of every point load and the points of zero
+ * shear. The deflection is the chord between the end displacements plus that of the simply
+ * supported member, integrated twice from the curvature M/EI (and any thermal curvature)
+ * with the shear strain −V/GAs; truss members deflect along their chord.
+ */
+function sampleMember(structure: Structure, elId: number, count: number): MemberDiagram {
+    const el = structure.elements[elId];
+    const L: number = el.length;
+    const loads: SpanLoad[] = el.span_loads ?? [];
+    const forces = getElementForces(structure, elId);
+    const start = { fx: forces[0], fy: forces[1], moment: forces[2] };
+    const section = (x: number, after = false) => sectionForces(start, x, loads, after);
+
+    // The internal forces are polynomials between the load discontinuities
+    const unique = (xs: number[]) => xs.sort((a, b) => a - b).filter((x, i) => i === 0 || x - xs[i - 1] > 1e-12 * L);
+    const breaks = unique([0, L, ...loads.flatMap(l => 'p' in l ? [l.a] : [l.a, l.b]).filter(x => x > 0 && x < L)]);
+
+    // Zero shear from the quadratic through each interval's ends and midpoint
+    const largest = Math.max(...breaks.map(x => Math.abs(section(x).fy)), ...breaks.map(x => Math.abs(section(x, true).fy)));
+    const zeroShear = breaks.slice(1).flatMap((x1, k) => {
+        const x0 = breaks[k];
+        const h = x1 - x0;
+        const [f0, fm, f1] = [section(x0, true).fy, section(x0 + h / 2).fy, section(x1).fy];
+        const c2 = 2 * (f1 - 2 * fm + f0) / h ** 2;
+        return quadraticRoots(f0, (f1 - f0) / h - c2 * h, c2, h, 1e-9 * largest).map(t => x0 + t);
+    });
+
+    // [x, after a point load at x]
+    const points: [number, boolean][] = [
+        ...Array.from({ length: count }, (_, k): [number, boolean] => [L * k / (count - 1), false]),
+        ...zeroShear.map((x): [number, boolean] => [x, false]),
+        ...loads.filter(l => 'p' in l && l.a > 0 && l.a < L).flatMap((l): [number, boolean][] => [[l.a, false], [l.a, true]])
     ];
+    points.sort((p, q) => p[0] - q[0] || Number(p[1]) - Number(q[1]));
+    const stations = points.filter((p, i) => i === 0 || p[1] !== points[i - 1][1] || p[0] - points[i - 1][0] > 1e-12 * L);
+
+    // Running integrals of κ, s·κ and γ over the breaks and stations
+    const grid = unique([...breaks, ...stations.map(([x]) => x)]);
+    const flexural = !!el.tapered || el.I > 0;
+    const rigidity = (x: number) => {
+        if (el.tapered) return el.tapered.rigidity(x / L).slice(1);
+        const EI = el.E * el.I;
+        return [EI, el.phi > 0 ? 12 * EI / (el.phi * L ** 2) : 0];
+    };
+    const strains = (x: number) => {
+        if (!flexural) return [0, 0];
+        const { fy: V, moment: M } = section(x);
+        const [EI, GAs] = rigidity(x);
+        return [M / EI + (el.thermal_curvature || 0), GAs > 0 ? -V / GAs : 0];
+    };
+    const running = [[0, 0, 0]];
+    grid.slice(1).forEach((x1, k) => {
+        const x0 = grid[k];
+        const segments = el.tapered ? Math.max(2, Math.ceil(TAPER_SEGMENTS * (x1 - x0) / L)) : 1;
+        const [I0, I1, G0] = running[k];
+        running.push([
+            I0 + integrate(x0, x1, segments, x => strains(x)[0]),
+            I1 + integrate(x0, x1, segments, x => x * strains(x)[0]),
+            G0 + integrate(x0, x1, segments, x => strains(x)[1])
+        ]);
+    });
+
+    const [, v1, , , v2] = localEndDisplacements(structure, elId);
+    const [I0L, I1L, G0L] = running[running.length - 1];
+    const deflection = (x: number) => {
+        const [I0, I1, G0] = running[grid.findIndex(g => Math.abs(g - x) <= 1e-12 * L)];
+        return v1 + (v2 - v1) * x / L + x * I0 - I1 - x / L * (L * I0L - I1L) + G0 - x / L * G0L;
+    };
+
+    const sampled: MemberStation[] = stations.map(([x, after]) => {
+        const { fx, fy, moment } = section(x, after);
+        return { x, axial: fx, shear: fy, moment, deflection: deflection(x) };
+    });
+
+    const quantities = ['axial', 'shear', 'moment', 'deflection'] as const;
+    const extreme = (better: (a: number, b: number) => boolean) => Object.fromEntries(quantities.map(q => {
+        const best = sampled.reduce((s, t) => better(t[q], s[q]) ? t : s);
+        return [q, { value: best[q], x: best.x }];
+    })) as MemberDiagram['max'];
+
+    return { stations: sampled, max: extreme((a, b) => a > b), min: extreme((a, b) => a < b) };
+}
 
-    const d_local = NP.matmul(t, d_global);
-    const kd = NP.matmul(k, d_local);
-    const eq = data["eq_load"] || [0, 0, 0, 0, 0, 0];
+/**
+ * Conditioning of the factorized stiffness: a 1-norm condition estimate and the spread of the
+ * diagonal. Roughly log10(κ) digits of the solution are lost, so a large spread usually means
+ * stiffnesses in mismatched units (a spring in N/m next to members with E in Pa, say).
+ */
+function checkConditioning(structure: Structure): ConditioningInfo {
+    const dofs = structure.equation_order;
+    const inEquations = new Uint8Array(structure.nodeCount * 3);
+    dofs.forEach(d => { inEquations[d] = 1; });
+    const K = structure.condense_constraints(structure.K);
+
+    // K is symmetric, so the largest column sum is the largest row sum
+    let norm = 0;
+    dofs.forEach(d => {
+        let sum = 0;
+        K.rows[d].forEach((v, j) => { if (inEquations[j]) sum += Math.abs(v); });
+        norm = Math.max(norm, sum);
+    });
+    const conditionEstimate = structure.K_factor ? norm * structure.K_factor.inverseNormEstimate() : 0;
+
+    const diagonal: DofStiffness[] = dofs.map(d => ({
+        nodeId: structure.nodes[Math.floor(d / 3) + 1].idStr,
+        dof: DOF_NAMES[d % 3],
+        stiffness: K.get(d, d)
+    })).sort((a, b) => b.stiffness - a.stiffness);
+    const largestDiagonal = diagonal.slice(0, CONDITIONING_DOFS);
+    const smallestDiagonal = diagonal.slice(-CONDITIONING_DOFS).reverse();
+    const diagonalRatio = diagonal.length > 0 ? diagonal[0].stiffness / diagonal[diagonal.length - 1].stiffness : 1;
+
+    const warnings: string[] = [];
+    const label = (s: DofStiffness) => `node ${s.nodeId} ${s.dof} (${s.stiffness.toExponential(2)})`;
+    if (diagonalRatio > ILL_CONDITIONING_RATIO) {
+        warnings.push(`Diagonal stiffness spans a ratio of ${diagonalRatio.toExponential(2)} from ${label(largestDiagonal[0])} to ${label(smallestDiagonal[0])}; check the units of springs, moduli and sections.`);
+    }
+    if (conditionEstimate > ILL_CONDITIONING_RATIO) {
+        warnings.push(`The stiffness matrix is ill-conditioned (condition estimate ${conditionEstimate.toExponential(2)}); about ${Math.floor(Math.log10(conditionEstimate))} digits of the displacements may be lost.`);
+    }
 
-    return kd.map((v: number, i: number) => v - eq[i]);
+    return { conditionEstimate, largestDiagonal, smallestDiagonal, diagonalRatio, warnings };
+}
+
+/**
+ * Self-check of the solution held by the structure: the applied loads against the reactions,
+ * the residual of the solved equations and the balance of the member end forces at every node
+ * with free DOFs. With P-Delta the loads and reactions also balance the moment of the
+ * geometric stiffness forces K_g·u, i.e. the P-Δ moments of the axial forces.
+ */
+function checkEquilibrium(structure: Structure, results: ResultSet, secondOrder: boolean): EquilibriumCheck {
+    const warnings: string[] = [];
+    const relative = (value: number, gross: number) => gross > 0 ? Math.abs(value) / gross : 0;
+    const toForce = (v: number[]): ForceVector => ({ fx: v[0], fy: v[1], moment: v[2] });
+    const components = ['X', 'Y', 'moment'];
+
+    // Global balance, with member loads as their (statically equivalent) nodal loads
+    const applied = [0, 0, 0];
+    const reactions = [0, 0, 0];
+    const gross = [0, 0, 0];
+    const add = (sum: number[], nodeId: number, f: number[]) => {
+        const { x, y } = structure.nodes[nodeId];
+        [f[0], f[1], x * f[1] - y * f[0] + f[2]].forEach((v, i) => { sum[i] += v; });
+        gross[0] += Math.abs(f[0]);
+        gross[1] += Math.abs(f[1]);
+        gross[2] += Math.abs(x * f[1]) + Math.abs(y * f[0]) + Math.abs(f[2]);
+    };
+    const loads = structure.rotate_vector(structure.eff_node_load, true);
+    for (let i = 1; i <= structure.nodeCount; i++) add(applied, i, structure.get_dofs(i).map(d => loads[d]));
+    for (const id in results.reactions) {
+        const r = results.reactions[id];
+        add(reactions, structure.get_id(id), [r.fx, r.fy, r.moment]);
+    }
+    let constraints: number[] | undefined;
+    if (structure.constraints.length > 0) {
+        constraints = [0, 0, 0];
+        const tied = structure.rotate_vector(structure.constraint_forces, true);
+        for (let i = 1; i <= structure.nodeCount; i++) add(constraints, i, structure.get_dofs(i).map(d => tied[d]));
+    }
+
+    // K_g·u sums to zero force but carries a moment; the elastic forces K·u balance on their own
+    let pDeltaMoment: number | undefined;
+    if (secondOrder) {
+        const geometric = [0, 0, 0];
+        const Kgu = structure.rotate_vector(Array.from(structure.assemble_geometric_stiffness_matrix().multiply(structure.nodal_axes_displacements)), true);
+        for (let i = 1; i <= structure.nodeCount; i++) add(geometric, i, structure.get_dofs(i).map(d => Kgu[d]));
+        pDeltaMoment = geometric[2];
+    }
+
+    // Roundoff is judged against the overall magnitude of the forces, whatever their direction:
+    // the applied loads and reactions, the member equivalent loads (thermal ones need not reach
+    // any node) and the forces of imposed displacements, k·δ at springs and K·u_s at rigid
+    // supports. Moments are also judged against that force over the size of the model
+    const size = structure.nodeCount * 3;
+    let forceScale = gross[0] + gross[1];
+    let momentScale = gross[2];
+    for (const key in structure.elements) {
+        const eq: number[] | undefined = structure.elements[key].eq_load;
+        eq?.forEach((v, i) => {
+            if (i % 3 === 2) momentScale += Math.abs(v);
+            else forceScale += Math.abs(v);
+        });
+    }
+    structure.spring_dofs.forEach(({ dof, k }) => { forceScale += Math.abs(k * structure.prescribed_displacements[dof]); });
+    const imposed = new Array(size).fill(0);
+    structure.fix_dof.forEach(d => { imposed[d] = structure.prescribed_displacements[d]; });
+    if (imposed.some(v => v !== 0)) {
+        structure.K.multiply(imposed).forEach((v, d) => {
+            if (d % 3 === 2) momentScale += Math.abs(v);
+            else forceScale += Math.abs(v);
+        });
+    }
+    const nodes = Object.values(structure.nodes) as any[];
+    const extent = Math.max(...nodes.map(n => n.x)) - Math.min(...nodes.map(n => n.x))
+        + Math.max(...nodes.map(n => n.y)) - Math.min(...nodes.map(n => n.y));
+    momentScale = Math.max(momentScale, forceScale * extent);
+
+    const imbalance = applied.map((v, i) => v + reactions[i] + (constraints?.[i] ?? 0) - (i === 2 ? pDeltaMoment ?? 0 : 0));
+    imbalance.forEach((v, i) => {
+        if (relative(v, i === 2 ? momentScale : forceScale) > EQUILIBRIUM_TOLERANCE) {
+            warnings.push(`Applied loads and reactions are out of balance by ${v.toExponential(3)} in ${components[i]}.`);
+        }
+    });
+
+    // ‖K_ff u_f − F_f‖; the known displacements sit in u, support springs carry their base movement.
+    // With constraints the equations are Tᵀ(K u − F) over the DOFs that are not slaves
+    const rhs = [...structure.eff_node_load];
+    structure.spring_dofs.forEach(({ dof, k }) => { rhs[dof] += k * structure.prescribed_displacements[dof]; });
+    const unsolved = new Array(structure.nodeCount * 3).fill(0);
+    structure.free_dof.forEach(i => { unsolved[i] = structure.K.rowDot(i, structure.nodal_axes_displacements) - rhs[i]; });
+    const equations = structure.free_dof.filter(i => !structure.slave_dofs.has(i));
+    const [condensedResidual, condensedLoad] = [structure.condense_vector(unsolved), structure.condense_vector(rhs)];
+    const residual = equations.map(i => condensedResidual[i]);
+    const residualNorm = Math.sqrt(dot(residual, residual));
+    const loadNorm = Math.sqrt(equations.reduce((sum, i) => sum + condensedLoad[i] ** 2, 0));
+    const relativeResidual = loadNorm > 0 ? residualNorm / loadNorm : residualNorm;
+    if (relativeResidual > EQUILIBRIUM_TOLERANCE) {
+        warnings.push(`The solved equations leave a relative residual of ${relativeResidual.toExponential(3)}.`);
+    }
+
+    // Σ Tᵀ f over the members meeting at a node equals its nodal load plus any spring and constraint
+    // force, measured against the overall magnitudes above or the largest gross sum at a DOF
+    const internal = new Array(size).fill(0);
+    const internalGross = new Array(size).fill(0);
+    for (const key in structure.elements) {
+        const el = structure.elements[key];
+        let f = NP.matmul(NP.transpose(transformation_matrix(el.sine, el.cosine)), getElementForces(structure, el.id));
+        if (el.rigid) f = NP.matmul(NP.transpose(el.rigid), f);
+        [...structure.get_dofs(el.node_i), ...structure.get_dofs(el.node_j)].forEach((dof, i) => {
+            internal[dof] += f[i];
+            internalGross[dof] += Math.abs(f[i]);
+        });
+    }
+    const out = structure.rotate_vector(internal, false).map((v, i) => v - structure.node_load[i]);
+    structure.spring_dofs.forEach(({ dof }, k) => { out[dof] -= structure.spring_reactions[k]; });
+    structure.constraint_forces.forEach((v, d) => { out[d] -= v; });
+
+    const isFree = new Uint8Array(size);
+    structure.free_dof.forEach(i => { isFree[i] = 1; });
+    const scale = [forceScale, momentScale];
+    internalGross.forEach((v, d) => {
+        const kind = d % 3 === 2 ? 1 : 0;
+        scale[kind] = Math.max(scale[kind], v + Math.abs(structure.node_load[d]));
+    });
+    const nodalImbalance: { [nodeId: string]: ForceVector } = {};
+    const unbalanced: string[] = [];
+    for (let i = 1; i <= structure.nodeCount; i++) {
+        const dofs = structure.get_dofs(i);
+        if (!dofs.some(d => isFree[d])) continue;
+        const { idStr } = structure.nodes[i];
+        nodalImbalance[idStr] = toForce(dofs.map(d => isFree[d] ? out[d] : 0));
+        if (dofs.some(d => isFree[d] && relative(out[d], scale[d % 3 === 2 ? 1 : 0]) > EQUILIBRIUM_TOLERANCE)) unbalanced.push(idStr);
+    }
+    if (unbalanced.length > 0) {
+        const more = unbalanced.length > 4 ? ` and ${unbalanced.length - 4} more` : '';
+        warnings.push(`Member end forces do not balance the loads at nodes ${unbalanced.slice(0, 4).join(', ')}${more}.`);
+    }
+
+    return {
+        appliedLoads: toForce(applied),
+        reactions: toForce(reactions),
+        imbalance: toForce(imbalance),
+        pDeltaMoment,
+        constraints: constraints && toForce(constraints),
+        residualNorm,
+        relativeResidual,
+        nodalImbalance,
+        tolerance: EQUILIBRIUM_TOLERANCE,
+        warnings
+    };
+}
+
+/**
+ * Influence lines and axle-train envelopes along a chain of members, loaded downward.
+ * Every load position is a separate solve on the factorized first-order stiffness; the
+ * applied loads of the model take no part.
+ */
+function runMovingLoad(structure: Structure, settings: MovingLoadSettings): MovingLoadResults {
+    // Path members with their offset along the path and whether they are travelled end to start
+    const segments: { el: any; offset: number; reversed: boolean }[] = [];
+    let pathLength = 0;
+    let exitNode: number | undefined;
+    settings.path.forEach((id, k) => {
+        const el = structure.elements[structure.elemIdMap[id]];
+        if (!el) return;
+        let reversed = el.node_j === exitNode;
+        if (exitNode === undefined) {
+            const next = structure.elements[structure.elemIdMap[settings.path[k + 1]]];
+            reversed = !!next && (el.node_i === next.node_i || el.node_i === next.node_j);
+        }
+        segments.push({ el, offset: pathLength, reversed });
+        pathLength += el.length;
+        exitNode = reversed ? el.node_i : el.node_j;
+    });
+
+    // Solves downward loads [position, P] on the path; also returns the point loads per member (local axes)
+    const solve = (loads: [number, number][]) => {
+        structure.clear_loads();
+        const applied = new Map<number, SpanLoad[]>();
+        loads.forEach(([position, P]) => {
+            if (position < 0 || position > pathLength * (1 + 1e-9)) return;
+            const segment = segments.find(g => position <= (g.offset + g.el.length) * (1 + 1e-9)) ?? segments[segments.length - 1];
+            const L = segment.el.length;
+            const along = Math.min(Math.max(position - segment.offset, 0), L);
+            const a = segment.reversed ? L - along : along;
+            const [px, py] = structure.member_load_to_local(segment.el.idStr, [0, -P], 'global');
+            structure.add_eq_load(segment.el.id, structure.member_point_fef(segment.el.id, px, py, a));
+            applied.set(segment.el.id, [...(applied.get(segment.el.id) ?? []), { a, p: [px, py] }]);
+        });
+        structure.assemble_load_vector();
+        structure.solve_displacements();
+        structure.find_reactions();
+        return { results: collectResults(structure), applied };
+    };
+
+    const evaluate = (q: InfluenceQuantity, { results, applied }: ReturnType<typeof solve>) => {
+        if (q.target === 'reaction') return results.reactions[q.id]?.[q.component] ?? 0;
+        const elId = structure.elemIdMap[q.id];
+        const forces = results.memberForces[q.id];
+        if (!forces) return 0;
+        return sectionForces(forces.start, q.station ?? structure.elements[elId].length / 2, applied.get(elId) ?? [])[q.component];
+    };
+
+    const quantities = settings.influenceLines ?? [];
+    const step = Math.max(settings.step && settings.step > 0 ? settings.step : pathLength / MOVING_LOAD_STEPS, pathLength / MAX_MOVING_LOAD_POSITIONS);
+    const travel = (end: number) => step > 0 ? Array.from({ length: Math.floor(end / step + 1e-9) + 1 }, (_, k) => k * step) : [0];
+
+    // Influence lines: a unit load at every step and at every joint of the path
+    const positions = [...new Set([...travel(pathLength), ...segments.map(g => g.offset), pathLength])].sort((a, b) => a - b);
+    const unitSolutions = positions.map(position => solve(segments.length > 0 ? [[position, 1]] : []));
+
+    // Axle train: the lead axle travels until the last axle has left the path
+    const axles = settings.axles && settings.axles.length > 0 ? settings.axles : [{ offset: 0, load: 1 }];
+    const trainLength = Math.max(0, ...axles.map(a => a.offset));
+    const leads = travel(pathLength + trainLength);
+    const extremes = quantities.map(() => ({ max: -Infinity, maxPosition: 0, min: Infinity, minPosition: 0 }));
+    let envelope: { max: ResultSet; min: ResultSet } | undefined;
+    leads.forEach(lead => {
+        const solution = solve(segments.length > 0 ? axles.map(a => [lead - a.offset, a.load] as [number, number]) : []);
+        if (!envelope) {
+            envelope = { max: mergeResults([solution.results], v => v[0]), min: mergeResults([solution.results], v => v[0]) };
+        } else {
+            accumulateResults(envelope.max, solution.results, Math.max);
+            accumulateResults(envelope.min, solution.results, Math.min);
+        }
+        quantities.forEach((q, i) => {
+            const value = evaluate(q, solution);
+            if (value > extremes[i].max) Object.assign(extremes[i], { max: value, maxPosition: lead });
+            if (value < extremes[i].min) Object.assign(extremes[i], { min: value, minPosition: lead });
+        });
+    });
+
+    return {
+        pathLength,
+        influenceLines: quantities.map((quantity, i) => ({
+            quantity,
+            positions,
+            values: unitSolutions.map(solution => evaluate(quantity, solution)),
+            ...extremes[i]
+        })),
+        envelope: envelope!
+    };
+}
+
+/**
+ * Linear dynamic response, M ü + C u̇ + K u = f(t)·P − M r a_g(t), by Newmark's average
+ * acceleration method (β = 1/4, γ = 1/2) on the first-order stiffness, with Rayleigh
+ * damping C = a₀M + a₁K. The structure starts at rest, so loads present at t = 0 act
+ * as suddenly applied.
+ */
+function runTimeHistory(structure: Structure, loads: Load[], settings: TimeHistorySettings): TimeHistoryResults {
+    const massType = settings.massType ?? 'consistent';
+    const xi = settings.dampingRatio ?? DEFAULT_DAMPING_RATIO;
+    const duration = Math.max(settings.duration, 0);
+    const dt = Math.max(settings.timeStep > 0 ? settings.timeStep : 0, duration / MAX_TIME_STEPS);
+    const steps = dt > 0 ? Math.ceil(duration / dt - 1e-9) : 0;
+
+    // Rayleigh coefficients that give ξ at two frequencies (a single mode gets ξ from both terms)
+    const frequencies = settings.dampingFrequencies?.every(f => f > 0)
+        ? settings.dampingFrequencies.map(f => 2 * Math.PI * f)
+        : runModal(structure, 2, massType).modes.map(m => m.circularFrequency);
+    const [w1, w2 = w1] = frequencies;
+    const rayleigh = w1 > 0
+        ? { mass: 2 * xi * w1 * w2 / (w1 + w2), stiffness: 2 * xi / (w1 + w2) }
+        : { mass: 0, stiffness: 0 };
+
+    // Reference loads; they and their fixed-end forces are scaled with f(t) when member forces and reactions are recovered
+    structure.clear_loads();
+    applyLoads(structure, loads.filter(l => l.type !== LoadType.SUPPORT_DISPLACEMENT));
+    structure.assemble_load_vector();
+    const order = structure.equation_order;
+    const size = structure.nodeCount * 3;
+    const load = structure.condense_vector(structure.eff_node_load);
+    const P = Float64Array.from(order, dof => load[dof]);
+    const nodeLoad: number[] = structure.node_load;
+    const eqNodeLoad: number[] = structure.eq_node_load;
+    const eqLoads = Object.values(structure.elements).map((el: any) => [el, el.eq_load] as [any, number[] | undefined]);
+    const loadFactor = (t: number) => settings.loadFunction ? interpolateTimeSeries(settings.loadFunction, t) : 0;
+
+    // Ground motion loads every mass along the direction of shaking: −M r a_g
+    const M = structure.assemble_mass_matrix(massType);
+    const ground = settings.groundMotion;
+    const Mr = ground ? groundInfluence(structure, M, ground.direction).Mr : new Array(order.length).fill(0);
+    const groundAcceleration = (t: number) => ground ? interpolateTimeSeries(ground.record, t) * (ground.scale ?? 1) : 0;
+
+    const [beta, gamma] = [0.25, 0.5];
+    const c0 = 1 / (beta * dt ** 2), c1 = gamma / (beta * dt), c2 = 1 / (beta * dt);
+    const c3 = 1 / (2 * beta) - 1, c4 = gamma / beta - 1, c5 = dt * (gamma / (2 * beta) - 1);
+
+    // Effective stiffness K + c₁C + c₀M, factorized once for the constant step
+    const effective = new SparseMatrix(size);
+    const [kScale, mScale] = [1 + rayleigh.stiffness * c1, c0 + rayleigh.mass * c1];
+    structure.K.rows.forEach((row, i) => row.forEach((v, j) => effective.add(i, j, kScale * v)));
+    M.rows.forEach((row, i) => row.forEach((v, j) => effective.add(i, j, mScale * v)));
+    const factor = SkylineMatrix.fromSparse(structure.condense_constraints(effective), order);
+    factor.factor();
+
+    const multiply = (A: SparseMatrix, x: Float64Array) => structure.multiply_equations(A, x);
+
+    const n = order.length;
+    let u: Float64Array = new Float64Array(n);
+    let v: Float64Array = new Float64Array(n);
+    let a: Float64Array = new Float64Array(n);
+    const respond = (t: number) => {
+        const f = loadFactor(t);
+        eqLoads.forEach(([el, eq]) => { if (eq) el.eq_load = eq.map(q => q * f); });
+        structure.node_load = nodeLoad.map(q => q * f);
+        structure.eq_node_load = eqNodeLoad.map(q => q * f);
+        structure.eff_node_load = structure.node_load.map((q, i) => q + structure.eq_node_load[i]);
+        structure.set_displacements(u);
+        structure.find_reactions();
+        return collectResults(structure, true);
+    };
+
+    const time = [0];
+    const frames = [respond(0)];
+    const max: ResultSet = mergeResults(frames, values => values[0]);
+    const min: ResultSet = mergeResults(frames, values => values[0]);
+    const stride = Math.ceil(steps / MAX_HISTORY_FRAMES);
+
+    for (let step = 1; step <= steps; step++) {
+        const t = step * dt;
+        const f = loadFactor(t);
+        const ag = groundAcceleration(t);
+
+        // P̂ = P(t) + M(c₀u + c₂v + c₃a) + C(c₁u + c₄v + c₅a)
+        const inertia = new Float64Array(n);
+        const damping = new Float64Array(n);
+        for (let i = 0; i < n; i++) {
+            const c = c1 * u[i] + c4 * v[i] + c5 * a[i];
+            inertia[i] = c0 * u[i] + c2 * v[i] + c3 * a[i] + rayleigh.mass * c;
+            damping[i] = rayleigh.stiffness * c;
+        }
+        const Mi = multiply(M, inertia);
+        const Kd = multiply(structure.K, damping);
+        const next = factor.solve(P.map((p, i) => f * p - ag * Mr[i] + Mi[i] + Kd[i]));
+
+        const aNext = next.map((x, i) => c0 * (x - u[i]) - c2 * v[i] - c3 * a[i]);
+        v = v.map((vi, i) => vi + dt * ((1 - gamma) * a[i] + gamma * aNext[i]));
+        a = aNext;
+        u = next;
+
+        const results = respond(t);
+        accumulateResults(max, results, Math.max);
+        accumulateResults(min, results, Math.min);
+        if (step % stride === 0 || step === steps) {
+            time.push(t);
+            frames.push(results);
+        }
+    }
+
+    return { timeStep: dt, rayleigh, time, frames, peak: { max, min } };
+}
+
+// Result of a P-Delta run whose axial forces exceed the buckling load
+function bucklingFailure(structure: Structure, loading: string): AnalysisResults {
+    return {
+        displacements: {},
+        reactions: {},
+        memberForces: {},
+        isStable: false,
+        message: `P-Delta analysis failed: the axial forces under ${loading} exceed the buckling load of the structure.`,
+        instability: getInstabilityInfo(structure)
+    };
+}
+
+// Members currently slack (out of the stiffness)
+function slackMembers(structure: Structure): string[] {
+    return Object.values(structure.elements).filter((el: any) => el.slack).map((el: any) => el.idStr);
+}
+
+function slackFailure(structure: Structure, loading: string): AnalysisResults {
+    const slack = slackMembers(structure);
+    return {
+        displacements: {},
+        reactions: {},
+        memberForces: {},
+        isStable: false,
+        message: `Structure is unstable under ${loading}: the slack members ${slack.join(', ')} leave a mechanism.`,
+        instability: getInstabilityInfo(structure)
+    };
+}
+
+// Re-solves the loads currently applied for their own slack members, starting with every member active
+function solveActiveSet(structure: Structure): ActiveSetInfo | null {
+    structure.reset_active_set();
+    structure.assemble_structure_stiffness_matrix();
+    structure.factor_stiffness();
+    structure.solve_displacements();
+    return structure.solve_active_set();
+}
+
+// Mode vector (global axes) per node, normalized on translations so the drawn shape is not dominated by rotations
+function normalizedShape(structure: Structure, mode: number[]) {
+    let scale = 0;
+    mode.forEach((v, i) => { if (i % 3 !== 2) scale = Math.max(scale, Math.abs(v)); });
+    if (scale === 0) scale = Math.max(...mode.map(Math.abs)) || 1;
+
+    const shape: { [nodeId: string]: NodalDisplacement } = {};
+    for (let i = 1; i <= structure.nodeCount; i++) {
+        const [x, y, rotation] = structure.get_dofs(i).map(d => mode[d] / scale);
+        shape[structure.nodes[i].idStr] = { x, y, rotation };
+    }
+    return shape;
+}
+
+function getInstabilityInfo(structure: Structure): InstabilityInfo {
+    const describe = (dof: number) => ({
+        nodeId: structure.nodes[Math.floor(dof / 3) + 1].idStr as string,
+        dof: DOF_NAMES[dof % 3]
+    });
+
+    const mechanismModes = structure.mechanism_modes.map(mode => {
+        const shape = normalizedShape(structure, mode);
+        const involvedNodes = Object.keys(shape).filter(id =>
+            Math.max(Math.abs(shape[id].x), Math.abs(shape[id].y), Math.abs(shape[id].rotation)) > 1e-6);
+        return { involvedNodes, shape };
+    });
+
+    return { unstableDofs: structure.singular_dofs.map(describe), mechanismModes };
 }
 
 export const analyzeStructure = (model: StructureModel): AnalysisResults => {
@@ -450,6 +2288,7 @@ export const analyzeStructure = (model: StructureModel): AnalysisResults => {
         const structure = new Structure();
 
         model.nodes.forEach(n => structure.add_node(n.id, n.x, n.y));
+        model.nodes.forEach(n => { if (n.mass || n.rotationalMass) structure.add_node_mass(n.id, n.mass || 0, n.rotationalMass || 0); });
 
         model.members.forEach(m => {
             if (m.type === 'spring') {
@@ -460,81 +2299,276 @@ export const analyzeStructure = (model: StructureModel): AnalysisResults => {
                 // CHANGED: Force I to 0 for Truss type to ensure zero rotational stiffness.
                 // Otherwise defaults to 0.0001 (Frame) which causes artificial rotations.
                 const I = m.type === 'truss' ? 0 : (m.momentInertia || 0.0001);
-                structure.add_frame(m.id, m.startNodeId, m.endNodeId, E, A, I);
+                const tapered = m.type !== 'truss' && !!m.taper;
+                const mass = m.massPerLength ?? (m.density || 0) * (tapered ? meanArea(m) : A);
+                const shearArea = m.shearArea || (m.shearFactor || 0) * A;
+                const shearRigidity = m.type !== 'truss' && m.shearModulus ? m.shearModulus * shearArea : 0;
+                structure.add_frame(m.id, m.startNodeId, m.endNodeId, E, A, I, m.type !== 'truss' ? m.releases : undefined, m.thermalCoefficient || 1.2e-5, m.depth, mass, shearRigidity, m.type !== 'truss' ? m.offsets : undefined);
+                if (tapered) {
+                    structure.set_taper(m.id, xi => {
+                        const { area, momentInertia } = sectionAt(m, xi);
+                        const G = m.shearModulus && (m.shearArea || m.shearFactor) ? m.shearModulus : 0;
+                        return [E * area, E * momentInertia, G * (m.shearArea || (m.shearFactor || 0) * area)];
+                    });
+                }
             }
+            if (m.behavior) structure.set_behavior(m.id, m.behavior);
         });
+        const hasActiveSet = model.members.some(m => m.behavior);
 
         model.supports.forEach(s => {
             let type = [0, 0, 0];
             if (s.type === SupportType.FIXED) type = [1, 1, 1];
             else if (s.type === SupportType.PIN) type = [1, 1, 0];
             else if (s.type === SupportType.ROLLER) type = [0, 1, 0];
-            structure.add_support(s.nodeId, type);
+            structure.add_support(s.nodeId, type, s.angle || 0, [s.kx || 0, s.ky || 0, s.kTheta || 0]);
         });
 
-        model.loads.forEach(l => {
-            if (l.type === LoadType.NODAL_POINT && l.nodeId) {
-                structure.add_node_load(l.nodeId, [l.magnitudeX, l.magnitudeY, l.moment || 0]);
-            } else if (l.memberId) {
-                if (l.type === LoadType.MEMBER_DISTRIBUTED) {
-                    structure.add_distributed_load(l.memberId, l.magnitudeY, "udl");
-                } else if (l.type === LoadType.MEMBER_POINT) {
-                    structure.add_distributed_load(l.memberId, l.magnitudeY, "point", l.location);
-                }
-            }
-        });
+        (model.constraints ?? []).forEach(c => structure.add_constraint(c.id, c.type, c.masterNodeId, c.slaveNodeIds, c.dofs));
+        const constraintError = structure.resolve_constraints();
+        if (constraintError) {
+            return {
+                displacements: {},
+                reactions: {},
+                memberForces: {},
+                isStable: false,
+                message: `Invalid constraints: ${constraintError}`
+            };
+        }
+
+        applyLoads(structure, model.loads);
+        const selfWeight = applySelfWeight(structure, model);
 
         structure.assemble_structure_stiffness_matrix();
         structure.assemble_load_vector();
         structure.find_displacements();
-        structure.find_reactions();
 
-        const displacements: any = {};
-        const reactions: any = {};
-        const memberForces: any = {};
-
-        for (let i = 1; i <= structure.nodeCount; i++) {
-            const node = structure.nodes[i];
-            const dofs = structure.get_dofs(i);
-            displacements[node.idStr] = {
-                x: structure.node_displacements[dofs[0]],
-                y: structure.node_displacements[dofs[1]],
-                rotation: structure.node_displacements[dofs[2]]
+        if (structure.singular_dofs.length > 0) {
+            const instability = getInstabilityInfo(structure);
+            const listed = instability.unstableDofs.slice(0, 4).map(d => `${d.nodeId} (${d.dof})`).join(', ');
+            const more = instability.unstableDofs.length > 4 ? ` and ${instability.unstableDofs.length - 4} more` : '';
+            const moving = instability.mechanismModes[0]?.involvedNodes ?? [];
+            return {
+                displacements: {},
+                reactions: {},
+                memberForces: {},
+                isStable: false,
+                message: `Structure is unstable: no stiffness against ${listed}${more}.`
+                    + (moving.length > 0 ? ` Mechanism involves nodes ${moving.join(', ')}.` : ''),
+                instability
             };
         }
 
-        const reactionMap: { [id: string]: { fx: number, fy: number, moment: number } } = {};
+        // Tension/compression-only members start active; the stability check above is on the full structure.
+        // Load cases have slack members of their own, so a mechanism under all loads together
+        // only leaves the all-loads results out
+        const cases = model.loadCases ?? [];
+        let activeSet: ActiveSetInfo | undefined;
+        let combinedSlack: string[] | undefined;
+        if (hasActiveSet) {
+            const outcome = structure.solve_active_set();
+            if (!outcome && cases.length === 0) return slackFailure(structure, 'the applied loads');
+            if (outcome) {
+                activeSet = outcome;
+            } else {
+                combinedSlack = slackMembers(structure);
+                structure.reset_active_set();
+                structure.assemble_structure_stiffness_matrix();
+                structure.factor_stiffness();
+            }
+        }
+
+        let { displacements, reactions, memberForces, constraintForces }: ResultSet = { displacements: {}, reactions: {}, memberForces: {} };
+        if (!combinedSlack) {
+            structure.find_reactions();
+            ({ displacements, reactions, memberForces, constraintForces } = collectResults(structure));
+        }
 
-        structure.fix_dof.forEach((globalDofIdx, i) => {
-            const nodeIdx = Math.floor(globalDofIdx / 3) + 1;
-            const localDof = globalDofIdx % 3;
-            const nodeStr = structure.nodes[nodeIdx].idStr;
-            const val = structure.reactions[i];
+        // The exported stiffness is the first-order one
+        const conditioning = checkConditioning(structure);
+        const exportDense = structure.nodeCount * 3 <= MAX_DENSE_EXPORT_DOFS;
+        const stiffnessMatrix = exportDense ? structure.K.toDense() : undefined;
+        const reducedStiffnessMatrix = exportDense ? structure.K.toDense(structure.free_dof) : undefined;
+
+        // Second-order effects do not superpose: all loads together and every combination
+        // are iterated on their own, the load cases stay first-order. Slack members are
+        // found on the first-order solution and kept through the P-Delta iterations
+        let pDelta: PDeltaInfo | undefined;
+        let combinationPDelta: { [id: string]: PDeltaInfo } | undefined;
+        if (model.pDelta && !combinedSlack) {
+            const second = runPDelta(structure, { displacements, reactions, memberForces, constraintForces });
+            if (!second) return bucklingFailure(structure, 'the applied loads');
+            ({ displacements, reactions, memberForces, constraintForces } = second.results);
+            pDelta = second.info;
+        }
 
-            if (!reactionMap[nodeStr]) reactionMap[nodeStr] = { fx: 0, fy: 0, moment: 0 };
-            if (localDof === 0) reactionMap[nodeStr].fx = val;
-            if (localDof === 1) reactionMap[nodeStr].fy = val;
-            if (localDof === 2) reactionMap[nodeStr].moment = val;
-        });
-        Object.assign(reactions, reactionMap);
-
-        for (const key in structure.elements) {
-            const el = structure.elements[key];
-            const forces = getElementForces(structure, el.id);
-            memberForces[el.idStr] = {
-                start: { fx: forces[0], fy: forces[1], moment: forces[2] },
-                end: { fx: forces[3], fy: forces[4], moment: forces[5] }
+        // Sampled while all loads are still applied, before the load cases replace them
+        const count = Math.max(2, Math.round(model.memberStations ?? DEFAULT_MEMBER_STATIONS));
+        const diagrams = combinedSlack ? undefined : Object.fromEntries((Object.values(structure.elements) as any[])
+            .filter(el => el.type === "frame")
+            .map(el => [el.idStr, sampleMember(structure, el.id, count)]));
+        const equilibrium = combinedSlack ? undefined : checkEquilibrium(structure, { displacements, reactions, memberForces }, !!model.pDelta);
+
+        // Every load case reuses the factorized stiffness; combinations superpose the cases
+        let loadCases: { [id: string]: ResultSet } | undefined;
+        let combinations: { [id: string]: ResultSet } | undefined;
+        let envelope: ResultEnvelope | undefined;
+        let loadCaseActiveSet: { [id: string]: ActiveSetInfo } | undefined;
+        let combinationActiveSet: { [id: string]: ActiveSetInfo } | undefined;
+        if (cases.length > 0) {
+            const caseOf = (l: Load) => cases.some(c => c.id === l.loadCaseId) ? l.loadCaseId : cases[0].id;
+            const deadCase = (cases.find(c => c.category === 'dead') ?? cases[0]).id;
+
+            if (model.pDelta) {
+                structure.set_axial_forces();
+                structure.assemble_structure_stiffness_matrix();
+                structure.factor_stiffness();
+            }
+
+            // With tension/compression-only members every case has its own slack members
+            const caseResults: ResultSet[] = [];
+            if (hasActiveSet) loadCaseActiveSet = {};
+            for (const c of cases) {
+                structure.clear_loads();
+                applyLoads(structure, model.loads.filter(l => caseOf(l) === c.id));
+                if (c.id === deadCase) applySelfWeight(structure, model);
+                structure.assemble_load_vector();
+                if (loadCaseActiveSet) {
+                    const outcome = solveActiveSet(structure);
+                    if (!outcome) return slackFailure(structure, `load case ${c.name}`);
+                    loadCaseActiveSet[c.id] = outcome;
+                } else {
+                    structure.solve_displacements();
+                }
+                structure.find_reactions();
+                caseResults.push(collectResults(structure));
+            }
+            loadCases = Object.fromEntries(cases.map((c, i) => [c.id, caseResults[i]]));
+
+            const combos = model.combinations ?? [];
+            const comboResults = combos.map(combo => {
+                const factors = cases.map(c => combo.factors[c.id] || 0);
+                return mergeResults(caseResults, values => values.reduce((sum, v, i) => sum + factors[i] * v, 0)) as ResultSet;
+            });
+
+            // Slack members do not superpose either, so combinations are then solved again; the
+            // first-order result is the starting point of each combination's P-Delta iterations
+            if (model.pDelta || hasActiveSet) {
+                if (model.pDelta) combinationPDelta = {};
+                if (hasActiveSet) combinationActiveSet = {};
+                for (let i = 0; i < combos.length; i++) {
+                    structure.clear_loads();
+                    cases.forEach(c => {
+                        const factor = combos[i].factors[c.id] || 0;
+                        if (factor === 0) return;
+                        applyLoads(structure, model.loads.filter(l => caseOf(l) === c.id).map(l => scaleLoad(l, factor)));
+                        if (c.id === deadCase) applySelfWeight(structure, model, factor);
+                    });
+                    structure.assemble_load_vector();
+                    if (combinationActiveSet) {
+                        const outcome = solveActiveSet(structure);
+                        if (!outcome) return slackFailure(structure, `combination ${combos[i].name}`);
+                        combinationActiveSet[combos[i].id] = outcome;
+                        structure.find_reactions();
+                        comboResults[i] = collectResults(structure);
+                    }
+                    if (combinationPDelta) {
+                        const second = runPDelta(structure, comboResults[i]);
+                        if (!second) return bucklingFailure(structure, `combination ${combos[i].name}`);
+                        comboResults[i] = second.results;
+                        combinationPDelta[combos[i].id] = second.info;
+                    }
+                }
+            }
+            combinations = Object.fromEntries(combos.map((combo, i) => [combo.id, comboResults[i]]));
+
+            const enveloped = comboResults.length > 0 ? comboResults : caseResults;
+            envelope = {
+                max: mergeResults(enveloped, values => Math.max(...values)),
+                min: mergeResults(enveloped, values => Math.min(...values))
+            };
+        }
+
+        // Buckling, the dynamic analyses and moving loads work on the first-order stiffness,
+        // without the members that went slack under all loads
+        if ((model.buckling || model.modal || model.responseSpectrum || model.movingLoad || model.timeHistory) && (model.pDelta || hasActiveSet)) {
+            structure.set_axial_forces();
+            structure.reset_active_set(activeSet?.slackMembers);
+            structure.assemble_structure_stiffness_matrix();
+            structure.factor_stiffness();
+        }
+
+        let buckling: BucklingResults | undefined;
+        if (model.buckling) {
+            const caseId = model.buckling.loadCaseId;
+            const caseResult = caseId ? loadCases?.[caseId] : undefined;
+            buckling = {
+                loadCaseId: caseResult ? caseId : undefined,
+                ...runBuckling(structure, caseResult ?? pDelta?.firstOrder ?? { displacements, reactions, memberForces }, model.buckling.modes ?? DEFAULT_BUCKLING_MODES)
             };
         }
 
+        const modal = model.modal
+            ? runModal(structure, model.modal.modes ?? DEFAULT_VIBRATION_MODES, model.modal.massType ?? 'consistent')
+            : undefined;
+
+        const responseSpectrum = model.responseSpectrum ? runResponseSpectrum(structure, model.responseSpectrum) : undefined;
+        const movingLoad = model.movingLoad ? runMovingLoad(structure, model.movingLoad) : undefined;
+
+        let timeHistory: TimeHistoryResults | undefined;
+        if (model.timeHistory) {
+            const caseId = model.timeHistory.loadCaseId;
+            const caseIds = cases.map(c => c.id);
+            const loads = caseId && caseIds.includes(caseId)
+                ? model.loads.filter(l => (caseIds.includes(l.loadCaseId!) ? l.loadCaseId : caseIds[0]) === caseId)
+                : model.loads;
+            timeHistory = runTimeHistory(structure, loads, model.timeHistory);
+        }
+
+        const tapered = model.members.filter(m => m.type !== 'truss' && m.taper);
+        const sections = tapered.length > 0 ? Object.fromEntries(tapered.map(m => [m.id, sectionStations(m)])) : undefined;
+
+        const unconverged = [pDelta, ...Object.values(combinationPDelta ?? {})].some(info => info && !info.converged);
+        const checks = [
+            ...(combinedSlack ? [`Under all loads together the slack members ${combinedSlack.join(', ')} leave a mechanism; only the load cases and combinations are reported.`] : []),
+            ...equilibrium?.warnings ?? [],
+            ...conditioning.warnings
+        ];
+        const unsettled = [activeSet, ...Object.values(loadCaseActiveSet ?? {}), ...Object.values(combinationActiveSet ?? {})].some(info => info && !info.converged);
+
         return {
             displacements,
             reactions,
             memberForces,
-            stiffnessMatrix: structure.K,
-            reducedStiffnessMatrix: structure.K_reduced,
+            constraintForces,
+            stiffnessMatrix,
+            reducedStiffnessMatrix,
             isStable: true,
-            message: "Analysis Completed Successfully"
+            message: unconverged
+                ? `Analysis Completed: P-Delta did not converge within ${MAX_P_DELTA_ITERATIONS} iterations`
+                : unsettled
+                    ? `Analysis Completed: the slack members did not settle within ${MAX_ACTIVE_SET_ITERATIONS} iterations`
+                    : checks.length > 0
+                        ? `Analysis Completed with warnings: ${checks.join(' ')}`
+                        : "Analysis Completed Successfully",
+            selfWeight,
+            loadCases,
+            combinations,
+            envelope,
+            pDelta,
+            combinationPDelta,
+            activeSet,
+            loadCaseActiveSet,
+            combinationActiveSet,
+            buckling,
+            modal,
+            responseSpectrum,
+            movingLoad,
+            timeHistory,
+            sections,
+            diagrams,
+            equilibrium,
+            conditioning
         };
 
     } catch (e: any) {
@@ -0,0 +1,274 @@
+// --- Sparse storage and skyline factorization for the structure stiffness matrix ---
+
+// Pivots smaller than this fraction of the original diagonal are treated as singular
+export const PIVOT_TOLERANCE = 1e-12;
+
+/**
+ * Row-wise sparse matrix used for assembly. Each row keeps a map of
+ * column -> value so element contributions can be scattered cheaply.
+ */
+export class SparseMatrix {
+    n: number;
+    rows: Map<number, number>[];
+
+    constructor(n: number) {
+        this.n = n;
+        this.rows = Array.from({ length: n }, () => new Map<number, number>());
+    }
+
+    add(i: number, j: number, v: number) {
+        if (v === 0) return;
+        const row = this.rows[i];
+        row.set(j, (row.get(j) || 0) + v);
+    }
+
+    get(i: number, j: number) {
+        return this.rows[i].get(j) || 0;
+    }
+
+    addSubmatrix(source: number[][], dofs: number[]) {
+        for (let i = 0; i < dofs.length; i++) {
+            for (let j = 0; j < dofs.length; j++) {
+                this.add(dofs[i], dofs[j], source[i][j]);
+            }
+        }
+    }
+
+    // Dot product of row i with a full-length vector
+    rowDot(i: number, x: ArrayLike<number>) {
+        let sum = 0;
+        this.rows[i].forEach((v, j) => { sum += v * x[j]; });
+        return sum;
+    }
+
+    multiply(x: ArrayLike<number>): Float64Array {
+        const y = new Float64Array(this.n);
+        for (let i = 0; i < this.n; i++) y[i] = this.rowDot(i, x);
+        return y;
+    }
+
+    // Dense copy of the sub-block (rows x cols); only used for small exports
+    toDense(rows?: number[], cols?: number[]): number[][] {
+        const r = rows || Array.from({ length: this.n }, (_, i) => i);
+        const c = cols || r;
+        const colIndex = new Map<number, number>();
+        c.forEach((dof, idx) => colIndex.set(dof, idx));
+        return r.map(i => {
+            const out = new Array(c.length).fill(0);
+            this.rows[i].forEach((v, j) => {
+                const idx = colIndex.get(j);
+                if (idx !== undefined) out[idx] = v;
+            });
+            return out;
+        });
+    }
+}
+
+/**
+ * Reverse Cuthill–McKee ordering of a graph given as adjacency lists.
+ * Returns the vertices in their new order (order[newIndex] = oldIndex).
+ */
+export function reverseCuthillMcKee(adjacency: number[][]): number[] {
+    const n = adjacency.length;
+    const degree = adjacency.map(a => a.length);
+    const visited = new Uint8Array(n);
+    const order: number[] = [];
+
+    while (order.length < n) {
+        // Start each connected component from a vertex of minimum degree
+        let start = -1;
+        for (let v = 0; v < n; v++) {
+            if (!visited[v] && (start === -1 || degree[v] < degree[start])) start = v;
+        }
+
+        visited[start] = 1;
+        const queue = [start];
+        for (let head = 0; head < queue.length; head++) {
+            const v = queue[head];
+            order.push(v);
+            const next = adjacency[v].filter(w => !visited[w]).sort((a, b) => degree[a] - degree[b]);
+            for (const w of next) {
+                visited[w] = 1;
+                queue.push(w);
+            }
+        }
+    }
+
+    return order.reverse();
+}
+
+/**
+ * Symmetric matrix in skyline (variable band) storage, factorized in place
+ * as K = Uᵀ D U with U unit upper triangular.
+ *
+ * Column j holds the entries from row first[j] down to the diagonal:
+ * values[ptr[j] + (i - first[j])] for first[j] <= i <= j.
+ */
+export class SkylineMatrix {
+    n: number;
+    first: Int32Array;
+    ptr: Int32Array;
+    values: Float64Array;
+    // Equations whose pivot vanished during factorization (mechanisms)
+    singular: number[] = [];
+
+    constructor(first: Int32Array) {
+        this.n = first.length;
+        this.first = first;
+        this.ptr = new Int32Array(this.n + 1);
+        for (let j = 0; j < this.n; j++) this.ptr[j + 1] = this.ptr[j] + (j - first[j] + 1);
+        this.values = new Float64Array(this.ptr[this.n]);
+    }
+
+    /**
+     * Builds the skyline of A restricted to `dofs`, where dofs[k] is the row of A
+     * that becomes equation k. Entries outside `dofs` are ignored.
+     */
+    static fromSparse(A: SparseMatrix, dofs: number[]): SkylineMatrix {
+        const eq = new Int32Array(A.n).fill(-1);
+        dofs.forEach((dof, k) => { eq[dof] = k; });
+
+        const first = new Int32Array(dofs.length);
+        dofs.forEach((dof, j) => {
+            let minRow = j;
+            A.rows[dof].forEach((_, col) => {
+                const i = eq[col];
+                if (i !== -1 && i < minRow) minRow = i;
+            });
+            first[j] = minRow;
+        });
+
+        const S = new SkylineMatrix(first);
+        dofs.forEach((dof, j) => {
+            A.rows[dof].forEach((v, col) => {
+                const i = eq[col];
+                if (i !== -1 && i <= j) S.values[S.ptr[j] + i - first[j]] += v;
+            });
+        });
+        return S;
+    }
+
+    diagonal(j: number) {
+        return this.values[this.ptr[j + 1] - 1];
+    }
+
+    /**
+     * In-place LDLᵀ factorization. Zero or negative pivots are recorded in
+     * `singular` and replaced by a stiff value so the remaining equations can
+     * still be factorized (the offending DOF is effectively restrained).
+     */
+    factor(tolerance = PIVOT_TOLERANCE) {
+        const { n, first, ptr, values } = this;
+        this.singular = [];
+
+        let maxDiag = 0;
+        for (let j = 0; j < n; j++) maxDiag = Math.max(maxDiag, Math.abs(this.diagonal(j)));
+        const restrained = (maxDiag || 1) * 1e12;
+
+        for (let j = 0; j < n; j++) {
+            const fj = first[j];
+            const pj = ptr[j];
+            const kjj = values[pj + j - fj];
+
+            // g_ij = k_ij - sum(u_ki * g_kj), stored in place of k_ij
+            for (let i = fj + 1; i < j; i++) {
+                const fi = first[i];
+                const pi = ptr[i];
+                const m = Math.max(fi, fj);
+                let sum = 0;
+                for (let k = m; k < i; k++) sum += values[pi + k - fi] * values[pj + k - fj];
+                values[pj + i - fj] -= sum;
+            }
+
+            // u_ij = g_ij / d_i and d_j = k_jj - sum(u_ij * g_ij)
+            let d = kjj;
+            for (let i = fj; i < j; i++) {
+                const g = values[pj + i - fj];
+                const u = g / this.diagonal(i);
+                values[pj + i - fj] = u;
+                d -= u * g;
+            }
+
+            if (kjj <= 0 || d <= tolerance * kjj) {
+                this.singular.push(j);
+                d = restrained;
+            }
+            values[pj + j - fj] = d;
+        }
+    }
+
+    /**
+     * Null vector associated with a singular pivot j: solves U v = e_j, so that
+     * K v = Uᵀ D e_j vanishes with the original (zero) pivot.
+     */
+    nullVector(j: number): Float64Array {
+        const { first, ptr, values } = this;
+        const v = new Float64Array(this.n);
+        v[j] = 1;
+
+        for (let c = j; c > 0; c--) {
+            const vc = v[c];
+            if (vc === 0) continue;
+            const fc = first[c];
+            const pc = ptr[c];
+            for (let k = fc; k < c; k++) v[k] -= values[pc + k - fc] * vc;
+        }
+
+        return v;
+    }
+
+    /**
+     * Estimate of ‖K⁻¹‖₁ from a few solves with the factor (Hager's method with Higham's
+     * alternating-sign safeguard, as in LAPACK's condition estimators). K is symmetric,
+     * so solves with Kᵀ are solves with K.
+     */
+    inverseNormEstimate(maxIterations = 5): number {
+        const { n } = this;
+        if (n === 0) return 0;
+        const norm1 = (v: Float64Array) => v.reduce((sum, x) => sum + Math.abs(x), 0);
+
+        let x = new Float64Array(n).fill(1 / n);
+        let estimate = 0;
+        for (let iteration = 0; iteration < maxIterations; iteration++) {
+            const y = this.solve(x);
+            const next = norm1(y);
+            if (iteration > 0 && next <= estimate) break;
+            estimate = next;
+
+            const z = this.solve(y.map(v => (v >= 0 ? 1 : -1)));
+            let j = 0;
+            for (let i = 1; i < n; i++) if (Math.abs(z[i]) > Math.abs(z[j])) j = i;
+            if (iteration > 0 && Math.abs(z[j]) <= z.reduce((sum, v, i) => sum + v * x[i], 0)) break;
+            x = new Float64Array(n);
+            x[j] = 1;
+        }
+
+        const b = Float64Array.from({ length: n }, (_, i) => (i % 2 === 0 ? 1 : -1) * (1 + i / Math.max(n - 1, 1)));
+        return Math.max(estimate, 2 * norm1(this.solve(b)) / (3 * n));
+    }
+
+    // Solves K x = b using the factorized form
+    solve(b: ArrayLike<number>): Float64Array {
+        const { n, first, ptr, values } = this;
+        const x = Float64Array.from(b);
+
+        for (let j = 0; j < n; j++) {
+            const fj = first[j];
+            const pj = ptr[j];
+            let sum = 0;
+            for (let k = fj; k < j; k++) sum += values[pj + k - fj] * x[k];
+            x[j] -= sum;
+        }
+
+        for (let j = 0; j < n; j++) x[j] /= this.diagonal(j);
+
+        for (let j = n - 1; j > 0; j--) {
+            const fj = first[j];
+            const pj = ptr[j];
+            const xj = x[j];
+            for (let k = fj; k < j; k++) x[k] -= values[pj + k - fj] * xj;
+        }
+
+        return x;
+    }
+}
@@ -0,0 +1,34 @@
+import { ResponseSpectrumSettings } from './types';
+import { interpolateTimeSeries } from './timeSeries';
+
+// --- Design response spectra and modal combination ---
+
+const DEFAULT_LONG_PERIOD = 8;
+
+/**
+ * Spectral acceleration at period T (scaled). A tabulated spectrum is interpolated linearly
+ * and held at its end values outside the table; otherwise the ASCE 7-16 §11.4.6 shape.
+ */
+export const spectralAcceleration = (settings: ResponseSpectrumSettings, T: number): number => {
+    const table = settings.spectrum;
+    let Sa = 0;
+    if (table && table.length > 0) {
+        Sa = interpolateTimeSeries(table, Math.min(Math.max(T, table[0][0]), table[table.length - 1][0]));
+    } else if (settings.code && settings.code.sds > 0) {
+        const { sds, sd1, longPeriod = DEFAULT_LONG_PERIOD } = settings.code;
+        const Ts = sd1 / sds;
+        const T0 = 0.2 * Ts;
+        if (T < T0) Sa = sds * (0.4 + 0.6 * T / T0);
+        else if (T <= Ts) Sa = sds;
+        else if (T <= longPeriod) Sa = sd1 / T;
+        else Sa = sd1 * longPeriod / T ** 2;
+    }
+    return Sa * (settings.scale ?? 1);
+};
+
+// Der Kiureghian's CQC correlation of two modes with the same damping ratio
+export const cqcCorrelation = (omega_i: number, omega_j: number, xi: number): number => {
+    if (omega_i === omega_j) return 1;
+    const b = omega_j / omega_i;
+    return 8 * xi ** 2 * (1 + b) * b ** 1.5 / ((1 - b ** 2) ** 2 + 4 * xi ** 2 * b * (1 + b) ** 2);
+};
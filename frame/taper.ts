@@ -0,0 +1,77 @@
+import { Member, SectionStation } from './types';
+
+// --- Non-prismatic (tapered) member sections ---
+
+// Equal divisions at which linear and parabolic tapers are reported
+const REPORTED_DIVISIONS = 10;
+
+// Sampled sections sorted along the member, or null when the member is prismatic
+const sortedStations = (member: Member): SectionStation[] | null => {
+    const stations = member.taper?.stations ?? [];
+    if (member.taper?.profile !== 'stations' || stations.length === 0) return null;
+    return [...stations].sort((a, b) => a.position - b.position);
+};
+
+// Area and moment of inertia at a fraction xi of the length (solver defaults for missing values)
+export const sectionAt = (member: Member, xi: number): { area: number; momentInertia: number } => {
+    const A0 = member.area || 0.01;
+    const I0 = member.momentInertia || 0.0001;
+    const taper = member.taper;
+    if (!taper) return { area: A0, momentInertia: I0 };
+
+    if (taper.profile === 'stations') {
+        const stations = sortedStations(member);
+        if (!stations) return { area: A0, momentInertia: I0 };
+        const t = Math.min(Math.max(xi, stations[0].position), stations[stations.length - 1].position);
+        let k = 0;
+        while (k < stations.length - 2 && stations[k + 1].position < t) k++;
+        const [s0, s1] = [stations[k], stations[Math.min(k + 1, stations.length - 1)]];
+        const f = s1.position > s0.position ? (t - s0.position) / (s1.position - s0.position) : 0;
+        return {
+            area: s0.area + (s1.area - s0.area) * f,
+            momentInertia: s0.momentInertia + (s1.momentInertia - s0.momentInertia) * f
+        };
+    }
+
+    const A1 = taper.endArea || A0;
+    const I1 = taper.endMomentInertia || I0;
+    const area = A0 + (A1 - A0) * xi;
+    if (taper.profile === 'parabolic') {
+        const root = Math.sqrt(I0) + (Math.sqrt(I1) - Math.sqrt(I0)) * xi;
+        return { area, momentInertia: root ** 2 };
+    }
+    return { area, momentInertia: I0 + (I1 - I0) * xi };
+};
+
+// Average area over the length (exact for the linear variations of A)
+export const meanArea = (member: Member): number => {
+    const stations = sortedStations(member);
+    if (!stations) return (sectionAt(member, 0).area + sectionAt(member, 1).area) / 2;
+    const points = [0, ...stations.map(s => s.position), 1].map(xi => Math.min(Math.max(xi, 0), 1));
+    let sum = 0;
+    for (let k = 1; k < points.length; k++) {
+        sum += (points[k] - points[k - 1]) * (sectionAt(member, points[k - 1]).area + sectionAt(member, points[k]).area) / 2;
+    }
+    return sum;
+};
+
+// Stations at which the section properties are reported
+export const sectionStations = (member: Member): SectionStation[] => {
+    const stations = sortedStations(member);
+    const positions = stations
+        ? [...new Set([0, ...stations.map(s => Math.min(Math.max(s.position, 0), 1)), 1])]
+        : Array.from({ length: REPORTED_DIVISIONS + 1 }, (_, k) => k / REPORTED_DIVISIONS);
+    return positions.map(position => ({ position, ...sectionAt(member, position) }));
+};
+
+// Reads "position, area, momentInertia" lines (position as a fraction of the length); other lines are skipped
+export const parseSectionStations = (text: string): SectionStation[] => {
+    const stations: SectionStation[] = [];
+    text.split(/\r?\n/).forEach(line => {
+        const [position, area, momentInertia] = line.trim().split(/[\s,;]+/).map(Number);
+        if ([position, area, momentInertia].every(Number.isFinite) && area > 0 && momentInertia > 0) {
+            stations.push({ position: Math.min(Math.max(position, 0), 1), area, momentInertia });
+        }
+    });
+    return stations.sort((a, b) => a.position - b.position);
+};
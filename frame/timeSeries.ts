@@ -0,0 +1,32 @@
+// --- Tabulated functions of time (load functions, ground motion records) ---
+
+/**
+ * Reads (t, value) pairs from pasted text: one pair per line, separated by commas,
+ * semicolons, tabs or spaces. Lines that do not start with two numbers (headers,
+ * comments) are skipped, and the pairs are sorted by time.
+ */
+export const parseTimeSeries = (text: string): [number, number][] => {
+    const points: [number, number][] = [];
+    text.split(/\r?\n/).forEach(line => {
+        const [t, v] = line.trim().split(/[\s,;]+/).map(Number);
+        if (Number.isFinite(t) && Number.isFinite(v)) points.push([t, v]);
+    });
+    return points.sort((a, b) => a[0] - b[0]);
+};
+
+// Linear interpolation between the tabulated points; zero outside the tabulated range
+export const interpolateTimeSeries = (points: [number, number][], t: number): number => {
+    if (points.length === 0 || t < points[0][0] || t > points[points.length - 1][0]) return 0;
+
+    let lo = 0;
+    let hi = points.length - 1;
+    while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1;
+        if (points[mid][0] <= t) lo = mid;
+        else hi = mid;
+    }
+
+    const [t0, v0] = points[lo];
+    const [t1, v1] = points[hi];
+    return t1 === t0 ? v1 : v0 + (v1 - v0) * (t - t0) / (t1 - t0);
+};
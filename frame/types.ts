@@ -3,10 +3,52 @@ export interface Node {
   x: number;
   y: number;
   label?: string;
+  // Lumped nodal mass (both translations) and mass moment of inertia, for dynamics
+  mass?: number;
+  rotationalMass?: number;
 }
 
 export type MemberType = 'beam' | 'truss' | 'spring';
 
+// Members that only carry tension (cables, slender bracing) or only compression (contact, gaps)
+export type MemberBehavior = 'tension' | 'compression';
+
+// Released end actions are not transferred between the member end and its node
+export interface EndRelease {
+  axial?: boolean;
+  shear?: boolean;
+  moment?: boolean;
+}
+
+export interface MemberReleases {
+  start?: EndRelease;
+  end?: EndRelease;
+}
+
+// Rigid end zone: a length along the member from its node, or a global vector from the node to the face
+export type EndOffset = number | { x: number; y: number };
+
+export interface MemberOffsets {
+  start?: EndOffset;
+  end?: EndOffset;
+}
+
+export interface SectionStation {
+  position: number; // Fraction of the length, 0 at the start
+  area: number;
+  momentInertia: number;
+}
+
+// Non-prismatic member; its area and momentInertia are the start section
+export interface MemberTaper {
+  // 'linear': A and I vary linearly to the end section; 'parabolic': A and √I vary linearly
+  // (I-sections of linearly varying depth); 'stations': linear between the sampled sections
+  profile: 'linear' | 'parabolic' | 'stations';
+  endArea?: number;
+  endMomentInertia?: number;
+  stations?: SectionStation[];
+}
+
 export interface Member {
   id: string;
   startNodeId: string;
@@ -16,7 +58,20 @@ export interface Member {
   area?: number;
   momentInertia?: number;
   springConstant?: number; // k
+  thermalCoefficient?: number; // α, defaults to steel (1.2e-5 /°C)
+  depth?: number; // Section depth for temperature gradients, defaults to √(12 I / A)
+  density?: number; // Mass per unit volume ρ; self-weight is ρ·g·A per unit length
+  massPerLength?: number; // Vibration mass per unit length, defaults to ρ·A
+  // Shear deformation (Timoshenko beam) when G and a shear area As (or κ, with As = κ·A) are given
+  shearModulus?: number; // G
+  shearArea?: number; // As
+  shearFactor?: number; // κ, e.g. 5/6 for a rectangle
   type: MemberType;
+  releases?: MemberReleases; // Beam members only
+  behavior?: MemberBehavior; // Carries both tension and compression when omitted
+  // Beam members only; lengths, member loads and stations then refer to the clear span between the faces
+  offsets?: MemberOffsets;
+  taper?: MemberTaper; // Beam members only; self-weight and mass use the mean area
 }
 
 export enum SupportType {
@@ -29,23 +84,80 @@ export interface Support {
   id: string;
   nodeId: string;
   type: SupportType;
+  // Inclination of the support axes in degrees (CCW from global X).
+  // A roller restrains movement normal to its inclined rolling surface.
+  angle?: number;
+  // Elastic restraint along the support axes. A positive stiffness replaces the
+  // rigid restraint of that DOF (or adds one where the support type leaves it free).
+  kx?: number;
+  ky?: number;
+  kTheta?: number;
 }
 
 export enum LoadType {
   NODAL_POINT = 'nodal_point',
   MEMBER_POINT = 'member_point',
-  MEMBER_DISTRIBUTED = 'member_distributed'
+  MEMBER_DISTRIBUTED = 'member_distributed',
+  // Imposed settlement/rotation of a support node: magnitudeX, magnitudeY and
+  // moment hold the displacements and rotation along the support axes
+  SUPPORT_DISPLACEMENT = 'support_displacement',
+  MEMBER_THERMAL = 'member_thermal'
 }
 
+// Axes of member load components: the member's own axes (x along the member),
+// global axes, or global axes with intensities per unit of projected length
+export type LoadDirection = 'local' | 'global' | 'projected';
+
 export interface Load {
   id: string;
   type: LoadType;
+  loadCaseId?: string; // Defaults to the first load case
   nodeId?: string;
   memberId?: string;
   magnitudeX: number;
   magnitudeY: number;
   moment?: number;
   location?: number; // Distance from start node for member point loads
+  direction?: LoadDirection; // Member loads only, defaults to 'local'
+  // Member distributed loads vary linearly from magnitudeX/Y at the start of the loaded
+  // length to endMagnitudeX/Y (default to magnitudeX/Y) at its end
+  endMagnitudeX?: number;
+  endMagnitudeY?: number;
+  startOffset?: number; // Distance from the start node to where the load begins
+  endOffset?: number; // Distance from the end node to where the load stops
+  deltaT?: number; // Uniform temperature change (member thermal loads)
+  temperatureGradient?: number; // T_top − T_bottom across the depth, top = local +y face
+}
+
+// Categories used by code load combinations (ASCE 7: D, L, Lr, S, R, W, E)
+export type LoadCaseCategory = 'dead' | 'live' | 'roof_live' | 'snow' | 'rain' | 'wind' | 'earthquake' | 'other';
+
+export interface LoadCase {
+  id: string;
+  name: string;
+  category?: LoadCaseCategory;
+}
+
+// Ties DOFs of the slave nodes to the master node (small displacements). A rigid link also
+// carries the master rotation into the slave translations: u_s = u_m − θ_m·Δy, v_s = v_m + θ_m·Δx,
+// with Δ measured from master to slave. Equal-DOF constraints copy the master's DOFs as they are.
+export type ConstraintType = 'rigid_link' | 'equal_dof';
+
+export interface Constraint {
+  id: string;
+  type: ConstraintType;
+  masterNodeId: string;
+  slaveNodeIds: string[];
+  // Slave DOFs that are tied; all three when omitted (e.g. ['x'] for a rigid floor diaphragm,
+  // ['rotation'] for an equal-rotation connection, ['x', 'y'] for a pinned rigid link)
+  dofs?: DofName[];
+}
+
+export interface LoadCombination {
+  id: string;
+  name: string;
+  // Load factor per load case id; cases not listed do not take part
+  factors: { [loadCaseId: string]: number };
 }
 
 export interface StructureModel {
@@ -53,19 +165,359 @@ export interface StructureModel {
   members: Member[];
   supports: Support[];
   loads: Load[];
+  loadCases?: LoadCase[];
+  combinations?: LoadCombination[];
+  constraints?: Constraint[];
+  // Generate the self-weight of beam/truss members with a density, acting in global −Y
+  selfWeight?: boolean;
+  gravity?: number; // Gravitational acceleration g, defaults to 9.81 (self-weight joins the first dead load case)
+  // Second-order analysis: iterate with the geometric stiffness of the member axial forces
+  pDelta?: boolean;
+  buckling?: BucklingSettings;
+  modal?: ModalSettings;
+  timeHistory?: TimeHistorySettings;
+  responseSpectrum?: ResponseSpectrumSettings;
+  movingLoad?: MovingLoadSettings;
+  memberStations?: number; // Equally spaced sampling stations per member (ends included), defaults to 11
 }
 
-export interface AnalysisResults {
-  displacements: { [nodeId: string]: { x: number; y: number; rotation: number } };
-  reactions: { [nodeId: string]: { fx: number; fy: number; moment: number } };
+export interface BucklingSettings {
+  modes?: number; // Number of critical load factors, defaults to 3
+  loadCaseId?: string; // Reference loading; all loads (unfactored) when omitted
+}
+
+export type DofName = 'x' | 'y' | 'rotation';
+
+export interface NodalDisplacement {
+  x: number;
+  y: number;
+  rotation: number;
+}
+
+export interface UnstableDof {
+  nodeId: string;
+  dof: DofName;
+}
+
+export interface MechanismMode {
+  // Nodes that move in this mode
+  involvedNodes: string[];
+  // Normalized so the largest component is 1
+  shape: { [nodeId: string]: NodalDisplacement };
+}
+
+export interface InstabilityInfo {
+  // DOFs where the stiffness matrix lost positive definiteness
+  unstableDofs: UnstableDof[];
+  mechanismModes: MechanismMode[];
+}
+
+export interface DofStiffness {
+  nodeId: string;
+  dof: DofName; // In nodal axes at inclined supports
+  stiffness: number; // Diagonal term of K_ff
+}
+
+export interface ConditioningInfo {
+  // Estimate of the 1-norm condition number ‖K_ff‖₁·‖K_ff⁻¹‖₁ of the first-order stiffness
+  conditionEstimate: number;
+  // DOFs with the largest and smallest diagonal stiffness, stiffest / softest first
+  largestDiagonal: DofStiffness[];
+  smallestDiagonal: DofStiffness[];
+  diagonalRatio: number;
+  warnings: string[];
+}
+
+export interface ForceVector {
+  fx: number;
+  fy: number;
+  moment: number;
+}
+
+export interface SupportReaction extends ForceVector {
+  // Components along the support's own axes (inclined supports only)
+  local?: ForceVector;
+}
+
+export interface SelfWeightSummary {
+  // Self-weight per unit length of each loaded member
+  members: { [memberId: string]: number };
+  total: number;
+}
+
+export interface ResultSet {
+  displacements: { [nodeId: string]: NodalDisplacement };
+  reactions: { [nodeId: string]: SupportReaction };
   memberForces: {
     [memberId: string]: {
-      start: { fx: number; fy: number; moment: number };
-      end: { fx: number; fy: number; moment: number };
+      // At the member ends, i.e. at the faces when the member has rigid end zones
+      start: ForceVector;
+      end: ForceVector;
+      // Members with rigid end zones: the same forces carried through to the nodes (member axes)
+      atNodes?: { start: ForceVector; end: ForceVector };
     }
   };
+  // Static results of models with constraints: the force the constraints exert on each tied node (global axes)
+  constraintForces?: { [nodeId: string]: ForceVector };
+}
+
+// Component-wise extremes over the combinations (or over the load cases if none are defined)
+export interface ResultEnvelope {
+  max: ResultSet;
+  min: ResultSet;
+}
+
+// Second-order (P-Delta) results compared with the first-order solution of the same loads
+export interface PDeltaInfo {
+  iterations: number;
+  converged: boolean;
+  // Largest second- to first-order ratio over the nodal translations and the member end
+  // moments (values under 1% of the first-order maximum are left out)
+  displacementAmplification: number;
+  momentAmplification: number;
+  // Largest end moment ratio of each member (members without first-order moment are omitted)
+  memberAmplification: { [memberId: string]: number };
+  firstOrder: ResultSet;
+}
+
+// Tension-only / compression-only iterations: members breaking their condition go slack
+// (no stiffness) and the loads are solved again until the set of slack members settles
+export interface ActiveSetInfo {
+  iterations: number;
+  converged: boolean;
+  slackMembers: string[];
+}
+
+export interface BucklingMode {
+  // Multiplier on the reference loads at which this mode buckles
+  loadFactor: number;
+  // Normalized so the largest translation is 1
+  shape: { [nodeId: string]: NodalDisplacement };
+}
+
+export interface BucklingResults {
+  loadCaseId?: string;
+  // Ascending load factors; empty when no member is in compression
+  modes: BucklingMode[];
+  converged: boolean;
+}
+
+export type MassType = 'consistent' | 'lumped';
+
+export interface ModalSettings {
+  modes?: number; // Number of vibration modes, defaults to 6
+  massType?: MassType; // Defaults to consistent
+}
+
+export interface DirectionalValue {
+  x: number;
+  y: number;
+}
+
+export interface VibrationMode {
+  circularFrequency: number; // ω (rad/s)
+  frequency: number; // f = ω / 2π
+  period: number; // T = 1 / f
+  // Normalized so the largest translation is 1
+  shape: { [nodeId: string]: NodalDisplacement };
+  // Γ = φᵀ M r of the mass-normalized mode for a unit ground motion along global X / Y
+  participation: DirectionalValue;
+  effectiveMass: DirectionalValue; // Γ²
+}
+
+export interface ModalResults {
+  massType: MassType;
+  // Ascending frequencies; empty when the structure has no mass
+  modes: VibrationMode[];
+  // Mass excited by a unit ground motion (the sum of the effective masses of all modes)
+  totalMass: DirectionalValue;
+  converged: boolean;
+}
+
+export interface GroundMotion {
+  direction: 'x' | 'y'; // Global direction of the base acceleration
+  record: [number, number][]; // (t, a_g) pairs
+  scale?: number; // Multiplier on the record (e.g. 9.81 for a record in g), defaults to 1
+}
+
+export interface TimeHistorySettings {
+  duration: number;
+  timeStep: number;
+  // The loads of this case (all loads when omitted) vary as f(t)·P; support displacements are not applied
+  loadCaseId?: string;
+  loadFunction?: [number, number][]; // (t, f) pairs, linear in between and zero outside
+  groundMotion?: GroundMotion;
+  dampingRatio?: number; // ξ, defaults to 0.05
+  // Frequencies (Hz) at which the Rayleigh damping gives ξ; defaults to the first two natural frequencies
+  dampingFrequencies?: [number, number];
+  massType?: MassType; // Defaults to consistent
+}
+
+export interface TimeHistoryResults {
+  timeStep: number; // Step used, larger than requested when the number of steps had to be capped
+  rayleigh: { mass: number; stiffness: number }; // C = a₀M + a₁K
+  // Response at evenly spaced instants; displacements are relative to the ground under ground motion
+  time: number[];
+  frames: ResultSet[];
+  // Extremes over every time step
+  peak: ResultEnvelope;
+}
+
+export type ModalCombination = 'srss' | 'cqc';
+
+// ASCE 7-16 §11.4.6 design response spectrum (accelerations in g)
+export interface CodeSpectrum {
+  sds: number; // S_DS, short-period design spectral acceleration
+  sd1: number; // S_D1, design spectral acceleration at 1 s
+  longPeriod?: number; // T_L (s), defaults to 8
+}
+
+export interface ResponseSpectrumSettings {
+  direction: 'x' | 'y';
+  // Tabulated (T, Sa) pairs, linear in between and held at the end values beyond; the code shape is used when omitted
+  spectrum?: [number, number][];
+  code?: CodeSpectrum;
+  scale?: number; // Multiplier on Sa, e.g. 9.81·Iₑ/R for a spectrum in g; defaults to 1
+  combination?: ModalCombination; // Defaults to CQC
+  dampingRatio?: number; // ξ of the CQC correlation, defaults to 0.05
+  modes?: number; // Number of modes combined, defaults to 12
+  massType?: MassType; // Defaults to consistent
+}
+
+export interface SpectrumModeResponse {
+  period: number;
+  spectralAcceleration: number; // Sa(T), scaled
+  participation: number; // Γ along the direction of excitation
+  effectiveMass: number; // Γ²
+  baseShear: number; // Of the peak modal response (signed)
+}
+
+export interface ResponseSpectrumResults {
+  direction: 'x' | 'y';
+  combination: ModalCombination;
+  modes: SpectrumModeResponse[];
+  totalMass: number;
+  // Combined peak magnitudes (unsigned) of every displacement, reaction and member end force
+  response: ResultSet;
+  baseShear: number;
+  converged: boolean;
+}
+
+export interface Axle {
+  offset: number; // Distance behind the lead axle
+  load: number; // Acts downward (global −Y)
+}
+
+export interface InfluenceQuantity {
+  // A support reaction, or the internal force at a section of a member
+  target: 'reaction' | 'section';
+  id: string; // Support node id or member id
+  station?: number; // Section distance from the member's start node, defaults to mid-length
+  // Reaction components in global axes; for a section fx is the axial force (tension +),
+  // fy the shear and moment the bending moment (sagging +, i.e. tension on the local −y side)
+  component: keyof ForceVector;
+}
+
+export interface MovingLoadSettings {
+  path: string[]; // Member ids in the order they are travelled, forming a continuous chain
+  axles?: Axle[]; // Defaults to a single unit load
+  step?: number; // Travel increment, defaults to 1/100 of the path length
+  influenceLines?: InfluenceQuantity[];
+}
+
+export interface InfluenceLine {
+  quantity: InfluenceQuantity;
+  // Value of the quantity for a downward unit load at each position along the path
+  positions: number[];
+  values: number[];
+  // Extremes under the axle train and the lead axle position that causes them
+  max: number;
+  maxPosition: number;
+  min: number;
+  minPosition: number;
+}
+
+// Applied loads of the model are not included: the results are for the axle train alone
+export interface MovingLoadResults {
+  pathLength: number;
+  influenceLines: InfluenceLine[];
+  // Component-wise extremes over every position of the train
+  envelope: ResultEnvelope;
+}
+
+// Internal forces at a section, in member axes: axial force (tension +), shear and moment
+// (sagging +, i.e. tension on the local −y side), with the transverse deflection (local +y)
+export interface MemberStation {
+  x: number; // Distance from the start of the clear length
+  axial: number;
+  shear: number;
+  moment: number;
+  deflection: number;
+}
+
+export interface StationExtreme {
+  value: number;
+  x: number;
+}
+
+export interface MemberDiagram {
+  // Equally spaced stations plus both sides of every point load and the points of zero shear
+  stations: MemberStation[];
+  max: { [K in Exclude<keyof MemberStation, 'x'>]: StationExtreme };
+  min: { [K in Exclude<keyof MemberStation, 'x'>]: StationExtreme };
+}
+
+// Self-check of the solution under all loads; forces are checked against the overall force magnitude
+// of the model (loads, equivalent loads, reactions, imposed displacements), moments also against
+// that force over the model size
+export interface EquilibriumCheck {
+  // Global axes, moments about the origin
+  appliedLoads: ForceVector; // Member loads enter as their equivalent nodal loads
+  reactions: ForceVector;
+  // P-Delta only: moment of the geometric stiffness forces K_g·u, which the loads and reactions balance
+  pDeltaMoment?: number;
+  // Models with constraints: their net force and moment on the nodes, which is not zero when
+  // equal-DOF constraints tie nodes off a common line
+  constraints?: ForceVector;
+  imbalance: ForceVector; // appliedLoads + reactions + constraints (− pDeltaMoment)
+  // ‖K_ff u_f − F_f‖, and the same divided by ‖F_f‖
+  residualNorm: number;
+  relativeResidual: number;
+  // Member end forces less the nodal loads at every node with free DOFs (nodal axes,
+  // restrained DOFs are zero)
+  nodalImbalance: { [nodeId: string]: ForceVector };
+  tolerance: number;
+  warnings: string[];
+}
+
+// The top-level result set is every load acting at once (unfactored)
+export interface AnalysisResults extends ResultSet {
   stiffnessMatrix?: number[][];
   reducedStiffnessMatrix?: number[][];
   isStable: boolean;
   message: string;
+  instability?: InstabilityInfo;
+  selfWeight?: SelfWeightSummary;
+  loadCases?: { [loadCaseId: string]: ResultSet };
+  combinations?: { [combinationId: string]: ResultSet };
+  envelope?: ResultEnvelope;
+  // Present for P-Delta analyses; load cases stay first-order, combinations are re-solved
+  pDelta?: PDeltaInfo;
+  combinationPDelta?: { [combinationId: string]: PDeltaInfo };
+  // Present when the model has tension-only or compression-only members; load cases and
+  // combinations are each solved with their own set of slack members
+  activeSet?: ActiveSetInfo;
+  loadCaseActiveSet?: { [loadCaseId: string]: ActiveSetInfo };
+  combinationActiveSet?: { [combinationId: string]: ActiveSetInfo };
+  buckling?: BucklingResults;
+  modal?: ModalResults;
+  timeHistory?: TimeHistoryResults;
+  responseSpectrum?: ResponseSpectrumResults;
+  movingLoad?: MovingLoadResults;
+  // Section properties along each tapered member
+  sections?: { [memberId: string]: SectionStation[] };
+  // Internal forces and deflection sampled along every beam and truss member under all loads
+  diagrams?: { [memberId: string]: MemberDiagram };
+  equilibrium?: EquilibriumCheck;
+  conditioning?: ConditioningInfo;
 }
\ No newline at end of file
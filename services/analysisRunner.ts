@@ -0,0 +1,24 @@
+import { StructureModel, AnalysisResults } from '../frame/types';
+import { analyzeStructure } from '../frame/solver';
+
+/**
+ * Analyzes the model in a web worker so long runs (e.g. a time history) keep the page
+ * responsive. Falls back to the main thread when workers are unavailable or fail to start.
+ */
+export const runAnalysis = (model: StructureModel): Promise<AnalysisResults> => {
+  if (typeof Worker === 'undefined') return Promise.resolve(analyzeStructure(model));
+
+  return new Promise(resolve => {
+    const worker = new Worker(new URL('../frame/analysisWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<AnalysisResults>) => {
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      worker.terminate();
+      resolve(analyzeStructure(model));
+    };
+    worker.postMessage(model);
+  });
+};
@@ -28,10 +28,33 @@ export const analyzeStructureWithGroq = async (
                 eModulus: m.eModulus,
                 area: m.area,
                 momentInertia: m.momentInertia,
-                springConstant: m.springConstant
+                springConstant: m.springConstant,
+                releases: m.releases,
+                behavior: m.behavior,
+                shearModulus: m.shearModulus,
+                shearArea: m.shearArea,
+                shearFactor: m.shearFactor,
+                offsets: m.offsets,
+                taper: m.taper,
+                thermalCoefficient: m.thermalCoefficient,
+                depth: m.depth,
+                density: m.density,
+                massPerLength: m.massPerLength
             })),
             supports: model.supports || [],
-            loads: model.loads || []
+            loads: model.loads || [],
+            loadCases: model.loadCases,
+            combinations: model.combinations,
+            selfWeight: model.selfWeight,
+            gravity: model.gravity,
+            pDelta: model.pDelta,
+            buckling: model.buckling,
+            modal: model.modal,
+            timeHistory: model.timeHistory,
+            responseSpectrum: model.responseSpectrum,
+            movingLoad: model.movingLoad,
+            memberStations: model.memberStations,
+            constraints: model.constraints
         };
 
         let structuralContext = `CURRENT STRUCTURAL MODEL:\n${JSON.stringify(engineeredModel, null, 2)}\n\n`;
@@ -40,7 +63,18 @@ export const analyzeStructureWithGroq = async (
             structuralContext += `ANALYSIS RESULTS (FEM):\n`;
             structuralContext += `- Nodal Displacements: ${JSON.stringify(analysisResults.displacements)}\n`;
             structuralContext += `- Support Reactions: ${JSON.stringify(analysisResults.reactions)}\n`;
-            structuralContext += `- Member Internal Forces: ${JSON.stringify(analysisResults.memberForces)}\n\n`;
+            if (analysisResults.constraintForces) structuralContext += `- Constraint Forces (on the tied nodes): ${JSON.stringify(analysisResults.constraintForces)}\n`;
+            structuralContext += `- Member Internal Forces: ${JSON.stringify(analysisResults.memberForces)}\n`;
+            structuralContext += `- Extremes Along Members (axial, shear, moment, deflection with their positions x): ${JSON.stringify(Object.fromEntries(Object.entries(analysisResults.diagrams ?? {}).map(([id, d]) => [id, { max: d.max, min: d.min }])))}\n`;
+            if (analysisResults.equilibrium) {
+              const { imbalance, relativeResidual, warnings } = analysisResults.equilibrium;
+              structuralContext += `- Equilibrium Check (loads + reactions, relative residual, warnings): ${JSON.stringify({ imbalance, relativeResidual, warnings })}\n`;
+            }
+            if (analysisResults.conditioning) {
+              const { conditionEstimate, diagonalRatio, warnings } = analysisResults.conditioning;
+              structuralContext += `- Stiffness Conditioning (condition estimate, largest / smallest diagonal, warnings): ${JSON.stringify({ conditionEstimate, diagonalRatio, warnings })}\n`;
+            }
+            structuralContext += `\n`;
         }
 
         const modelingAgentInstructions = `
@@ -53,18 +87,38 @@ export const analyzeStructureWithGroq = async (
       
       CRITICAL SCHEMA RULES (MANDATORY):
       1. Members MUST use keys: 'id', 'type' ('beam'|'truss'|'spring'), 'startNodeId', 'endNodeId'.
+         - 'releases': optional for beams, e.g. {"end": {"moment": true}} for an internal hinge at the end node ('start'/'end' each take 'axial', 'shear', 'moment' booleans)
+         - 'behavior': optional "tension" (cables, slender X-bracing) or "compression" (contact, gaps); such members go slack when their axial force has the other sign
+         - 'shearModulus' with 'shearArea' (or 'shearFactor' κ, e.g. 5/6 for rectangles): optional for beams; adds shear deformation (Timoshenko) for deep or short beams
+         - 'offsets': optional rigid end zones for beams, e.g. {"start": 0.25, "end": {"x": -0.2, "y": 0}}; a number is a length along the member from its node, an object a global vector from the node to the face (beams framing into deep columns)
+         - 'taper': optional non-prismatic beam, 'area'/'momentInertia' being the start section: {"profile": "linear"|"parabolic", "endArea": 0.012, "endMomentInertia": 1e-4} or {"profile": "stations", "stations": [{"position": 0, "area": 0.02, "momentInertia": 4e-4}, {"position": 1, "area": 0.012, "momentInertia": 1e-4}]} (position as a fraction of the length)
       2. Support MUST use keys: 'id', 'nodeId', 'type' ('pin'|'roller'|'fixed').
+         - 'angle': optional support inclination in degrees (CCW from X); a roller restrains movement normal to its inclined surface
+         - 'kx', 'ky', 'kTheta': optional elastic spring stiffnesses along the support axes; a positive value makes that DOF elastic instead of rigid
       3. Load MUST use EXACT keys: 
          - 'id': unique string (e.g., 'l1')
-         - 'type': 'nodal_point', 'member_point', or 'member_distributed'
-         - 'nodeId': (required for nodal_point) 
-         - 'memberId': (required for member_point/member_distributed)
-         - 'magnitudeX': horizontal force (positive is right)
-         - 'magnitudeY': vertical force (positive is up)
+         - 'type': 'nodal_point', 'member_point', 'member_distributed', 'support_displacement' (imposed settlement of a supported node: magnitudeX/magnitudeY are displacements, moment is a rotation), or 'member_thermal'
+         - 'nodeId': (required for nodal_point/support_displacement) 
+         - 'memberId': (required for member_point/member_distributed/member_thermal)
+         - 'magnitudeX': horizontal force (positive is right); for member loads, the component along the 'direction' x axis
+         - 'magnitudeY': vertical force (positive is up); for member loads, the component along the 'direction' y axis
+         - 'direction': member loads only: 'global' (X/Y axes, e.g. self weight), 'local' (x along the member, y perpendicular; the default) or 'projected' (global, intensity per horizontal/vertical projected length, e.g. snow on a rafter)
          - 'moment': moment (positive is counter-clockwise)
          - 'location': distance from start node (only for member_point)
+         - 'endMagnitudeX', 'endMagnitudeY', 'startOffset', 'endOffset': optional for member_distributed; the intensity varies linearly from magnitudeX/Y to endMagnitudeX/Y over the length that starts startOffset from the start node and stops endOffset short of the end node
+         - 'deltaT', 'temperatureGradient': uniform temperature change and T_top − T_bottom (only for member_thermal; members may set 'thermalCoefficient' and 'depth')
+         - Self-weight: set payload 'selfWeight': true (optional 'gravity', default 9.81) and give members a 'density' (mass per volume, e.g. 7850 kg/m3, or 7.85 t/m3 for kN); do NOT add it as a load
       4. Units as specified by the user. Otherwise x, y in meters & Forces in kiloNewtons (kN).
       5. Always provide the FULL model state in the payload.
+      6. Load cases (optional): payload 'loadCases' [{"id": "D", "name": "Dead", "category": "dead"|"live"|"roof_live"|"snow"|"rain"|"wind"|"earthquake"|"other"}] and 'combinations' [{"id": "c1", "name": "1.2D + 1.6L", "factors": {"D": 1.2, "L": 1.6}}]; each load sets 'loadCaseId' (loads without one belong to the first case)
+      7. Second-order analysis (optional): payload 'pDelta': true for P-Delta effects (slender columns, sway frames under heavy gravity load)
+      8. Buckling (optional): payload 'buckling': {"modes": 3, "loadCaseId": "D"} for critical load factors of the reference loads (all loads when loadCaseId is omitted); effective length K = sqrt(π²EI / (λP)) / L
+      9. Modal analysis (optional): payload 'modal': {"modes": 6, "massType": "consistent"|"lumped"}; member mass comes from 'massPerLength' or density·area, and nodes may carry 'mass' and 'rotationalMass' (mass units, e.g. t with kN and m)
+      10. Time history (optional): payload 'timeHistory': {"duration": 10, "timeStep": 0.01, "dampingRatio": 0.05, "loadCaseId": "W", "loadFunction": [[0, 0], [0.5, 1], [2, 0]], "groundMotion": {"direction": "x", "record": [[0, 0], [0.02, 0.1]], "scale": 9.81}}; loads (of loadCaseId, or all) are multiplied by the load function, the ground acceleration record acts on the masses (same mass input as modal analysis)
+      11. Response spectrum (optional): payload 'responseSpectrum': {"direction": "x", "code": {"sds": 1.0, "sd1": 0.6, "longPeriod": 8}, "scale": 9.81, "combination": "srss"|"cqc", "modes": 12} for the ASCE 7 shape in g (or "spectrum": [[T, Sa], ...] tabulated); scale multiplies Sa (e.g. 9.81·Ie/R); results are combined peak magnitudes and base shear
+      12. Moving loads (optional): payload 'movingLoad': {"path": ["m1", "m2"], "axles": [{"offset": 0, "load": 145}, {"offset": 4.3, "load": 145}], "step": 0.25, "influenceLines": [{"target": "reaction", "id": "n1", "component": "fy"}, {"target": "section", "id": "m1", "station": 5, "component": "moment"}]}; path members in travel order, axle loads act downward, offsets are behind the lead axle
+      13. Member sampling (optional): payload 'memberStations': 21 sets the equally spaced stations per member at which internal forces and deflections are reported (default 11)
+      14. Constraints (optional): payload 'constraints' [{"id": "k1", "type": "rigid_link"|"equal_dof", "masterNodeId": "n2", "slaveNodeIds": ["n5"], "dofs": ["x"]}]; a rigid link moves the slaves with the master as a rigid body (eccentric connections, rigid zones), equal_dof copies the master displacements (e.g. dofs ["x"] for a floor diaphragm); dofs defaults to all three, and slave DOFs must not also have a support
     `;
 
         const devProfile = `
@@ -1,6 +1,7 @@
 import jsPDF from "jspdf";
 import autoTable from 'jspdf-autotable';
-import { StructureModel, AnalysisResults } from "../frame/types";
+import { StructureModel, AnalysisResults, EndRelease, LoadType } from "../frame/types";
+import { influenceLabel } from "../frame/influence";
 
 export const generateReport = (model: StructureModel, results: AnalysisResults, imageUri?: string) => {
     const doc = new jsPDF();
@@ -75,6 +76,7 @@ export const generateReport = (model: StructureModel, results: AnalysisResults,
         let typeStr = "Beam";
         if (rawType === 'truss') typeStr = "Truss";
         if (rawType === 'spring') typeStr = "Spring";
+        if (m.behavior) typeStr += m.behavior === 'tension' ? " (T only)" : " (C only)";
 
         let E = "NA", A = "NA", I = "NA", k = "NA";
 
@@ -82,6 +84,8 @@ export const generateReport = (model: StructureModel, results: AnalysisResults,
             E = m.eModulus ? m.eModulus.toExponential(2) : "-";
             A = m.area ? m.area.toExponential(2) : "-";
             I = m.momentInertia ? m.momentInertia.toExponential(2) : "-";
+            if (m.shearModulus && (m.shearArea || m.shearFactor)) typeStr += " (Timoshenko)";
+            if (m.taper) typeStr += ` (${m.taper.profile} taper)`;
         } else if (rawType === 'truss') {
             E = m.eModulus ? m.eModulus.toExponential(2) : "-";
             A = m.area ? m.area.toExponential(2) : "-";
@@ -89,13 +93,23 @@ export const generateReport = (model: StructureModel, results: AnalysisResults,
             k = m.springConstant ? m.springConstant.toString() : "-";
         }
 
-        return [m.id, m.startNodeId, m.endNodeId, typeStr, E, A, I, k];
+        // Released actions per end, e.g. "M / NM"
+        let releases = "-";
+        if (rawType === 'beam' && m.releases) {
+            const describe = (r?: EndRelease) =>
+                r ? `${r.axial ? 'N' : ''}${r.shear ? 'V' : ''}${r.moment ? 'M' : ''}` : '';
+            const start = describe(m.releases.start);
+            const end = describe(m.releases.end);
+            if (start || end) releases = `${start || '-'} / ${end || '-'}`;
+        }
+
+        return [m.id, m.startNodeId, m.endNodeId, typeStr, E, A, I, k, releases];
     });
 
     doc.text("Members", 14, yPos - 3);
     autoTable(doc, {
         startY: yPos,
-        head: [['ID', 'Start', 'End', 'Type', 'E', 'A', 'I', 'k']],
+        head: [['ID', 'Start', 'End', 'Type', 'E', 'A', 'I', 'k', 'Releases']],
         body: memberRows,
         theme: 'striped',
         headStyles: { fillColor: [51, 65, 85] },
@@ -107,13 +121,106 @@ export const generateReport = (model: StructureModel, results: AnalysisResults,
     doc.text("Supports", 14, yPos - 3);
     autoTable(doc, {
         startY: yPos,
-        head: [['Node', 'Type']],
-        body: model.supports.map(s => [s.nodeId, s.type]),
+        head: [['Node', 'Type', 'Angle (deg)', 'kx', 'ky', 'kTheta']],
+        body: model.supports.map(s => [
+            s.nodeId, s.type, s.angle ? s.angle.toString() : "0",
+            s.kx ? s.kx.toExponential(2) : "-",
+            s.ky ? s.ky.toExponential(2) : "-",
+            s.kTheta ? s.kTheta.toExponential(2) : "-"
+        ]),
         theme: 'striped',
         headStyles: { fillColor: [51, 65, 85] },
         styles: { fontSize: 9 }
     });
-    yPos = (doc as any).lastAutoTable.finalY + 15;
+    yPos = (doc as any).lastAutoTable.finalY + 10;
+
+    // Multi-point constraints (all DOFs unless listed)
+    const constraints = model.constraints ?? [];
+    if (constraints.length > 0) {
+        if (yPos > 250) { doc.addPage(); yPos = 20; }
+        doc.text("Constraints", 14, yPos - 3);
+        autoTable(doc, {
+            startY: yPos,
+            head: [['Type', 'Master', 'Slaves', 'DOFs']],
+            body: constraints.map(c => [
+                c.type === 'rigid_link' ? 'rigid link' : 'equal DOF', c.masterNodeId, c.slaveNodeIds.join(', '), (c.dofs ?? ['x', 'y', 'rotation']).join(', ')
+            ]),
+            theme: 'striped',
+            headStyles: { fillColor: [51, 65, 85] },
+            styles: { fontSize: 9 }
+        });
+        yPos = (doc as any).lastAutoTable.finalY + 10;
+    }
+
+    // Loads without a known case belong to the first case
+    const loadCases = model.loadCases ?? [];
+    const caseName = (id?: string) => (loadCases.find(c => c.id === id) ?? loadCases[0])?.name ?? "-";
+
+    // Loads Table (settlement rows hold displacements, thermal rows only the details)
+    const loadRows = model.loads.map(l => {
+        const details: string[] = [];
+        if (l.type === LoadType.MEMBER_POINT || l.type === LoadType.MEMBER_DISTRIBUTED) details.push(`${l.direction || 'local'} axes`);
+        if (l.type === LoadType.MEMBER_POINT) details.push(l.location ? `at ${l.location}` : 'at midspan');
+        if (l.type === LoadType.MEMBER_DISTRIBUTED) {
+            if (l.endMagnitudeX !== undefined) details.push(`Fx end ${l.endMagnitudeX}`);
+            if (l.endMagnitudeY !== undefined) details.push(`Fy end ${l.endMagnitudeY}`);
+            if (l.startOffset || l.endOffset) details.push(`offsets ${l.startOffset ?? 0} / ${l.endOffset ?? 0}`);
+        }
+        const row = l.type === LoadType.MEMBER_THERMAL
+            ? [l.memberId || "-", l.type, "-", "-", "-", `dT ${l.deltaT ?? 0}, T top - T bottom ${l.temperatureGradient ?? 0}`]
+            : [l.nodeId || l.memberId || "-", l.type, l.magnitudeX, l.magnitudeY, l.moment ?? 0, details.join(', ') || "-"];
+        return loadCases.length > 0 ? [caseName(l.loadCaseId), ...row] : row;
+    });
+
+    if (loadRows.length > 0) {
+        if (yPos > 250) { doc.addPage(); yPos = 20; }
+        doc.text("Loads", 14, yPos - 3);
+        autoTable(doc, {
+            startY: yPos,
+            head: [[...(loadCases.length > 0 ? ['Case'] : []), 'Target', 'Type', 'X', 'Y', 'Moment', 'Details']],
+            body: loadRows,
+            theme: 'striped',
+            headStyles: { fillColor: [51, 65, 85] },
+            styles: { fontSize: 9 }
+        });
+        yPos = (doc as any).lastAutoTable.finalY + 15;
+    }
+
+    // Load cases and their factored combinations
+    if (loadCases.length > 0) {
+        if (yPos > 250) { doc.addPage(); yPos = 20; }
+        doc.text("Load Combinations", 14, yPos - 3);
+        const combinations = model.combinations ?? [];
+        autoTable(doc, {
+            startY: yPos,
+            head: [['Combination', 'Factors']],
+            body: combinations.length > 0
+                ? combinations.map(c => [c.name, Object.entries(c.factors).map(([id, f]) => `${f} ${caseName(id)}`).join(' + ')])
+                : [['-', `Load cases: ${loadCases.map(c => c.name).join(', ')}`]],
+            theme: 'striped',
+            headStyles: { fillColor: [51, 65, 85] },
+            styles: { fontSize: 9 }
+        });
+        yPos = (doc as any).lastAutoTable.finalY + 15;
+    }
+
+    // Self-weight is generated by the solver, so it is listed apart from the applied loads
+    if (results?.selfWeight) {
+        const { members, total } = results.selfWeight;
+        if (yPos > 250) { doc.addPage(); yPos = 20; }
+        doc.text(`Self-weight (g = ${model.gravity ?? 9.81}, total ${total.toFixed(3)})`, 14, yPos - 3);
+        autoTable(doc, {
+            startY: yPos,
+            head: [['Member', 'Density', 'w (per length)']],
+            body: Object.entries(members).map(([id, w]) => [
+                id, model.members.find(m => m.id === id)?.density ?? "-", w.toFixed(3)
+            ]),
+            theme: 'striped',
+            headStyles: { fillColor: [51, 65, 85] },
+            styles: { fontSize: 9 }
+        });
+        yPos = (doc as any).lastAutoTable.finalY + 15;
+    }
 
     // --- Results Section ---
     if (results && results.isStable) {
@@ -155,7 +262,415 @@ export const generateReport = (model: StructureModel, results: AnalysisResults,
             theme: 'grid',
             headStyles: { fillColor: [22, 163, 74] }
         });
-        yPos = (doc as any).lastAutoTable.finalY + 15;
+        yPos = (doc as any).lastAutoTable.finalY + 10;
+
+        // Inclined supports: reactions along the support axes
+        const localRows = Object.entries(results.reactions)
+            .filter(([, r]) => r.local)
+            .map(([id, r]) => [id, r.local!.fx.toFixed(3), r.local!.fy.toFixed(3), r.local!.moment.toFixed(3)]);
+
+        if (localRows.length > 0) {
+            doc.text("Support Reactions (Support Axes)", 14, yPos);
+            yPos += 2;
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Node', "Fx'", "Fy'", 'Moment']],
+                body: localRows,
+                theme: 'grid',
+                headStyles: { fillColor: [22, 163, 74] }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 10;
+        }
+
+        // Forces the constraints exert on the tied nodes
+        if (results.constraintForces) {
+            if (yPos > 250) { doc.addPage(); yPos = 20; }
+            doc.text("Constraint Forces", 14, yPos);
+            yPos += 2;
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Node', 'Fx', 'Fy', 'Moment']],
+                body: Object.entries(results.constraintForces).map(([id, f]) => [id, f.fx.toFixed(3), f.fy.toFixed(3), f.moment.toFixed(3)]),
+                theme: 'grid',
+                headStyles: { fillColor: [22, 163, 74] }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 10;
+        }
+
+        // Self-check: loads against reactions, equation residual and nodal balance
+        if (results.equilibrium) {
+            const { appliedLoads, reactions, constraints, imbalance, pDeltaMoment, residualNorm, relativeResidual, tolerance, warnings } = results.equilibrium;
+            const rows = ([['Sum Fx', 'fx'], ['Sum Fy', 'fy'], ['Sum M (origin)', 'moment']] as const).map(([label, c]) => [
+                label, appliedLoads[c].toExponential(4), reactions[c].toExponential(4), imbalance[c].toExponential(3)
+            ]);
+            if (constraints) rows.push(['Constraints (Sum Fx, Sum Fy, Sum M)', '', '', (['fx', 'fy', 'moment'] as const).map(c => constraints[c].toExponential(3)).join(', ')]);
+            if (pDeltaMoment !== undefined) rows.push(['P-Delta moment (Kg*u)', '', '', pDeltaMoment.toExponential(4)]);
+            if (yPos > 250) { doc.addPage(); yPos = 20; }
+            doc.text("Equilibrium Check", 14, yPos);
+            yPos += 2;
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Sum', 'Applied Loads', 'Reactions', 'Imbalance']],
+                body: rows,
+                theme: 'grid',
+                headStyles: { fillColor: [22, 163, 74] },
+                styles: { fontSize: 8 }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 5;
+            doc.setFontSize(9);
+            const notes = [
+                `Residual ||K_ff u_f - F_f|| = ${residualNorm.toExponential(3)} (relative ${relativeResidual.toExponential(3)})`,
+                ...(warnings.length > 0 ? warnings.map(w => `Warning: ${w}`) : [`All checks within the relative tolerance ${tolerance.toExponential(0)}`])
+            ];
+            notes.forEach(note => {
+                doc.splitTextToSize(note, 180).forEach((line: string) => {
+                    doc.text(line, 14, yPos);
+                    yPos += 4;
+                });
+            });
+            doc.setFontSize(11);
+            yPos += 6;
+        }
+
+        // Conditioning of the first-order stiffness
+        if (results.conditioning) {
+            const { conditionEstimate, largestDiagonal, smallestDiagonal, diagonalRatio, warnings } = results.conditioning;
+            if (yPos > 250) { doc.addPage(); yPos = 20; }
+            doc.text(`Stiffness Conditioning (condition estimate ${conditionEstimate.toExponential(3)})`, 14, yPos);
+            yPos += 2;
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Diagonal', 'Node', 'DOF', 'Stiffness']],
+                body: [
+                    ...largestDiagonal.map(s => ['Largest', s.nodeId, s.dof, s.stiffness.toExponential(4)]),
+                    ...smallestDiagonal.map(s => ['Smallest', s.nodeId, s.dof, s.stiffness.toExponential(4)])
+                ],
+                theme: 'grid',
+                headStyles: { fillColor: [22, 163, 74] },
+                styles: { fontSize: 8 }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 5;
+            doc.setFontSize(9);
+            [`Largest / smallest diagonal = ${diagonalRatio.toExponential(3)}`, ...warnings.map(w => `Warning: ${w}`)].forEach(note => {
+                doc.splitTextToSize(note, 180).forEach((line: string) => {
+                    doc.text(line, 14, yPos);
+                    yPos += 4;
+                });
+            });
+            doc.setFontSize(11);
+            yPos += 6;
+        }
+
+        // Section properties along tapered members
+        if (results.sections) {
+            const sectionRows = Object.entries(results.sections).flatMap(([id, stations]) => stations.map(st => [
+                id, st.position.toFixed(2), st.area.toExponential(3), st.momentInertia.toExponential(3)
+            ]));
+            if (yPos > 250) { doc.addPage(); yPos = 20; }
+            doc.text("Tapered Member Sections", 14, yPos);
+            yPos += 2;
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Member', 'x / L', 'A', 'I']],
+                body: sectionRows,
+                theme: 'grid',
+                headStyles: { fillColor: [22, 163, 74] },
+                styles: { fontSize: 8 }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 10;
+        }
+
+        // Rigid end zones: design forces at the faces next to the values at the nodes
+        const offsetRows = Object.entries(results.memberForces)
+            .filter(([, f]) => f.atNodes)
+            .flatMap(([id, f]) => (['start', 'end'] as const).map(end => [
+                `${id} ${end}`,
+                f[end].fx.toFixed(3), f[end].fy.toFixed(3), f[end].moment.toFixed(3),
+                f.atNodes![end].fy.toFixed(3), f.atNodes![end].moment.toFixed(3)
+            ]));
+
+        if (offsetRows.length > 0) {
+            if (yPos > 250) { doc.addPage(); yPos = 20; }
+            doc.text("Member End Forces at Faces and Nodes (member axes)", 14, yPos);
+            yPos += 2;
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Member End', 'N (face)', 'V (face)', 'M (face)', 'V (node)', 'M (node)']],
+                body: offsetRows,
+                theme: 'grid',
+                headStyles: { fillColor: [22, 163, 74] },
+                styles: { fontSize: 8 }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 10;
+        }
+
+        // Extremes between the member ends, e.g. mid-span moments and deflections
+        if (results.diagrams) {
+            const quantities = [['axial', 'Axial'], ['shear', 'Shear'], ['moment', 'Moment'], ['deflection', 'Deflection']] as const;
+            const extremeRows = Object.entries(results.diagrams).flatMap(([id, d]) => quantities.map(([q, label]) => [
+                id, label,
+                `${d.max[q].value.toExponential(3)} @ ${d.max[q].x.toFixed(3)}`,
+                `${d.min[q].value.toExponential(3)} @ ${d.min[q].x.toFixed(3)}`
+            ]));
+            if (yPos > 250) { doc.addPage(); yPos = 20; }
+            doc.text("Extremes Along Members (value @ x)", 14, yPos);
+            yPos += 2;
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Member', 'Quantity', 'Max', 'Min']],
+                body: extremeRows,
+                theme: 'grid',
+                headStyles: { fillColor: [22, 163, 74] },
+                styles: { fontSize: 8 }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 10;
+        }
+
+        // Envelopes over the combinations (or the load cases)
+        if (results.envelope) {
+            const { max, min } = results.envelope;
+            const range = (hi: number, lo: number) => `${lo.toFixed(3)} / ${hi.toFixed(3)}`;
+
+            if (yPos > 250) { doc.addPage(); yPos = 20; }
+            doc.text("Support Reaction Envelope (min / max)", 14, yPos);
+            yPos += 2;
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Node', 'Fx', 'Fy', 'Moment']],
+                body: Object.entries(max.reactions).map(([id, r]) => [
+                    id, range(r.fx, min.reactions[id].fx), range(r.fy, min.reactions[id].fy), range(r.moment, min.reactions[id].moment)
+                ]),
+                theme: 'grid',
+                headStyles: { fillColor: [22, 163, 74] }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 10;
+
+            if (yPos > 250) { doc.addPage(); yPos = 20; }
+            doc.text("Member End Force Envelope (min / max)", 14, yPos);
+            yPos += 2;
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Member', 'End', 'Axial', 'Shear', 'Moment']],
+                body: Object.entries(max.memberForces).flatMap(([id, f]) => (['start', 'end'] as const).map(end => [
+                    id, end,
+                    range(f[end].fx, min.memberForces[id][end].fx),
+                    range(f[end].fy, min.memberForces[id][end].fy),
+                    range(f[end].moment, min.memberForces[id][end].moment)
+                ])),
+                theme: 'grid',
+                headStyles: { fillColor: [22, 163, 74] },
+                styles: { fontSize: 8 }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 10;
+        }
+
+        // Members that went slack under each loading
+        if (results.activeSet) {
+            const runs = [
+                ['All loads', results.activeSet] as const,
+                ...(model.loadCases ?? [])
+                    .filter(c => results.loadCaseActiveSet?.[c.id])
+                    .map(c => [c.name, results.loadCaseActiveSet![c.id]] as const),
+                ...(model.combinations ?? [])
+                    .filter(c => results.combinationActiveSet?.[c.id])
+                    .map(c => [c.name, results.combinationActiveSet![c.id]] as const)
+            ];
+
+            if (yPos > 250) { doc.addPage(); yPos = 20; }
+            doc.text("Tension / Compression-Only Members", 14, yPos);
+            yPos += 2;
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Loading', 'Iterations', 'Slack Members']],
+                body: runs.map(([name, info]) => [
+                    name,
+                    `${info.iterations}${info.converged ? '' : ' (not converged)'}`,
+                    info.slackMembers.join(', ') || 'None'
+                ]),
+                theme: 'grid',
+                headStyles: { fillColor: [22, 163, 74] }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 10;
+        }
+
+        // Second-order results compared with the first-order run of the same loads
+        if (results.pDelta) {
+            const runs = [
+                ['All loads', results.pDelta] as const,
+                ...(model.combinations ?? [])
+                    .filter(c => results.combinationPDelta?.[c.id])
+                    .map(c => [c.name, results.combinationPDelta![c.id]] as const)
+            ];
+
+            if (yPos > 250) { doc.addPage(); yPos = 20; }
+            doc.text("P-Delta Amplification (second / first order)", 14, yPos);
+            yPos += 2;
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Loading', 'Iterations', 'Displacement', 'Moment']],
+                body: runs.map(([name, info]) => [
+                    name,
+                    `${info.iterations}${info.converged ? '' : ' (not converged)'}`,
+                    info.displacementAmplification.toFixed(3),
+                    info.momentAmplification.toFixed(3)
+                ]),
+                theme: 'grid',
+                headStyles: { fillColor: [22, 163, 74] }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 10;
+
+            const memberRows = Object.entries(results.pDelta.memberAmplification).map(([id, a]) => [id, a.toFixed(3)]);
+            if (memberRows.length > 0) {
+                if (yPos > 250) { doc.addPage(); yPos = 20; }
+                doc.text("Member End Moment Amplification (all loads)", 14, yPos);
+                yPos += 2;
+                autoTable(doc, {
+                    startY: yPos,
+                    head: [['Member', 'Amplification']],
+                    body: memberRows,
+                    theme: 'grid',
+                    headStyles: { fillColor: [22, 163, 74] }
+                });
+                yPos = (doc as any).lastAutoTable.finalY + 10;
+            }
+        }
+
+        if (results.buckling) {
+            const { modes, loadCaseId, converged } = results.buckling;
+            const reference = loadCaseId ? caseName(loadCaseId) : 'all loads';
+            if (yPos > 250) { doc.addPage(); yPos = 20; }
+            doc.text(`Buckling Load Factors (reference: ${reference}${converged ? '' : ', not converged'})`, 14, yPos);
+            yPos += 2;
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Mode', 'Load Factor', 'Largest Translation At']],
+                body: modes.length > 0
+                    ? modes.map((mode, i) => {
+                        const [nodeId] = Object.entries(mode.shape).reduce((best, entry) =>
+                            Math.hypot(entry[1].x, entry[1].y) > Math.hypot(best[1].x, best[1].y) ? entry : best);
+                        return [`${i + 1}`, mode.loadFactor.toPrecision(5), nodeId];
+                    })
+                    : [['-', 'No member is in compression under the reference loads', '-']],
+                theme: 'grid',
+                headStyles: { fillColor: [22, 163, 74] }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 10;
+        }
+
+        if (results.modal) {
+            const { modes, totalMass, massType, converged } = results.modal;
+            const ratio = (m: number, total: number) => total > 0 ? `${(100 * m / total).toFixed(1)}%` : '-';
+            let cumulative = { x: 0, y: 0 };
+            if (yPos > 250) { doc.addPage(); yPos = 20; }
+            doc.text(`Vibration Modes (${massType} mass${converged ? '' : ', not converged'})`, 14, yPos);
+            yPos += 2;
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Mode', 'f (Hz)', 'T (s)', 'Gamma x', 'Gamma y', 'Meff x', 'Meff y', 'Cum. x', 'Cum. y']],
+                body: modes.length > 0
+                    ? modes.map((mode, i) => {
+                        cumulative = { x: cumulative.x + mode.effectiveMass.x, y: cumulative.y + mode.effectiveMass.y };
+                        return [
+                            `${i + 1}`, mode.frequency.toPrecision(4), mode.period.toPrecision(4),
+                            mode.participation.x.toPrecision(3), mode.participation.y.toPrecision(3),
+                            ratio(mode.effectiveMass.x, totalMass.x), ratio(mode.effectiveMass.y, totalMass.y),
+                            ratio(cumulative.x, totalMass.x), ratio(cumulative.y, totalMass.y)
+                        ];
+                    })
+                    : [['-', 'The model has no mass', '', '', '', '', '', '', '']],
+                theme: 'grid',
+                headStyles: { fillColor: [22, 163, 74] },
+                styles: { fontSize: 8 }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 10;
+        }
+
+        if (results.responseSpectrum) {
+            const { modes, combination, direction, baseShear, totalMass, converged } = results.responseSpectrum;
+            let cumulative = 0;
+            if (yPos > 250) { doc.addPage(); yPos = 20; }
+            doc.text(`Response Spectrum (${direction.toUpperCase()}, ${combination.toUpperCase()}${converged ? '' : ', not converged'})`, 14, yPos);
+            yPos += 2;
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Mode', 'T (s)', 'Sa', 'Gamma', 'Meff', 'Cum. Meff', 'Base Shear']],
+                body: modes.length > 0
+                    ? [
+                        ...modes.map((mode, i) => {
+                            cumulative += mode.effectiveMass;
+                            return [
+                                `${i + 1}`, mode.period.toPrecision(4), mode.spectralAcceleration.toPrecision(4), mode.participation.toPrecision(3),
+                                totalMass > 0 ? `${(100 * mode.effectiveMass / totalMass).toFixed(1)}%` : '-',
+                                totalMass > 0 ? `${(100 * cumulative / totalMass).toFixed(1)}%` : '-',
+                                mode.baseShear.toFixed(2)
+                            ];
+                        }),
+                        [combination.toUpperCase(), '', '', '', '', '', baseShear.toFixed(2)]
+                    ]
+                    : [['-', 'The model has no mass', '', '', '', '', '']],
+                theme: 'grid',
+                headStyles: { fillColor: [22, 163, 74] },
+                styles: { fontSize: 8 }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 10;
+        }
+
+        if (results.movingLoad && results.movingLoad.influenceLines.length > 0) {
+            const { influenceLines, pathLength } = results.movingLoad;
+            if (yPos > 250) { doc.addPage(); yPos = 20; }
+            doc.text(`Moving Load Extremes (path length ${pathLength.toPrecision(4)})`, 14, yPos);
+            yPos += 2;
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Quantity', 'Max', 'Lead Axle at', 'Min', 'Lead Axle at']],
+                body: influenceLines.map(line => [
+                    influenceLabel(line.quantity),
+                    line.max.toFixed(3), line.maxPosition.toPrecision(4),
+                    line.min.toFixed(3), line.minPosition.toPrecision(4)
+                ]),
+                theme: 'grid',
+                headStyles: { fillColor: [22, 163, 74] },
+                styles: { fontSize: 8 }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 10;
+        }
+
+        if (results.timeHistory) {
+            const { peak, timeStep, rayleigh, time } = results.timeHistory;
+            const range = (max: number, min: number) => [max.toExponential(3), min.toExponential(3)];
+            if (yPos > 250) { doc.addPage(); yPos = 20; }
+            doc.text(`Time History Peaks (t = 0 to ${time[time.length - 1].toPrecision(4)} s, dt = ${timeStep.toPrecision(3)} s)`, 14, yPos);
+            yPos += 5;
+            doc.setFontSize(9);
+            doc.text(`Rayleigh damping C = ${rayleigh.mass.toPrecision(4)}*M + ${rayleigh.stiffness.toExponential(3)}*K`, 14, yPos);
+            doc.setFontSize(11);
+            yPos += 2;
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Node', 'dx max', 'dx min', 'dy max', 'dy min', 'rot max', 'rot min']],
+                body: Object.keys(peak.max.displacements).map(id => {
+                    const [max, min] = [peak.max.displacements[id], peak.min.displacements[id]];
+                    return [id, ...range(max.x, min.x), ...range(max.y, min.y), ...range(max.rotation, min.rotation)];
+                }),
+                theme: 'grid',
+                headStyles: { fillColor: [22, 163, 74] },
+                styles: { fontSize: 8 }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 5;
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Support', 'Rx max', 'Rx min', 'Ry max', 'Ry min', 'M max', 'M min']],
+                body: Object.keys(peak.max.reactions).map(id => {
+                    const [max, min] = [peak.max.reactions[id], peak.min.reactions[id]];
+                    return [id, ...range(max.fx, min.fx), ...range(max.fy, min.fy), ...range(max.moment, min.moment)];
+                }),
+                theme: 'grid',
+                headStyles: { fillColor: [22, 163, 74] },
+                styles: { fontSize: 8 }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 10;
+        }
+        yPos += 5;
 
         // Stiffness Matrix
         // Prioritize reduced stiffness matrix
@@ -205,6 +720,24 @@ export const generateReport = (model: StructureModel, results: AnalysisResults,
     } else {
         doc.setTextColor(200, 0, 0);
         doc.text("Analysis failed or structure is unstable.", 14, yPos);
+        yPos += 6;
+
+        doc.setFontSize(9);
+        doc.setTextColor(100);
+        const lines = doc.splitTextToSize(results?.message || "", 180);
+        doc.text(lines, 14, yPos);
+        yPos += lines.length * 4 + 4;
+
+        if (results?.instability && results.instability.unstableDofs.length > 0) {
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Node', 'Unrestrained DOF']],
+                body: results.instability.unstableDofs.map(d => [d.nodeId, d.dof]),
+                theme: 'grid',
+                headStyles: { fillColor: [185, 28, 28] },
+                styles: { fontSize: 9 }
+            });
+        }
     }
 
     doc.save("StructureRealm_Report.pdf");